@@ -0,0 +1,184 @@
+/// <reference path="../types/index.d.ts" />
+
+import Model from './model';
+import Attribute from './attribute';
+import Logger from './logger';
+import IdentityMap from './identity-map';
+import OfflineQueue from './offline-queue';
+import ResponseCache from './response-cache';
+import Batch from './batch';
+import builtinAttributeTypes from './util/attribute-types';
+import * as _cloneDeep from './util/clonedeep';
+let cloneDeep: any = (<any>_cloneDeep).default || _cloneDeep;
+if (cloneDeep.default) {
+  cloneDeep = cloneDeep.default;
+}
+
+// Every model class, in the order they were defined. Models choose
+// their context after they're defined (static apiContext), so each
+// context picks out its own models from here.
+let registry: Array<typeof Model> = [];
+
+// Settings and type mapping for one JSON:API backend. Config is the
+// default context; create more to talk to other backends:
+//
+// const billing = new ApiContext({ baseUrl: 'https://billing.example.com' });
+//
+// class BillingRecord extends Model {
+//   static apiContext = billing;
+// }
+//
+// billing.setup();
+export default class ApiContext {
+  baseUrl: string = 'http://please-set-a-base-url.com';
+  typeMapping: Object = {};
+  logger: Logger = new Logger();
+  jwtLocalStorage: string | false = 'jwt';
+  localStorage;
+  identityMap: IdentityMap | null = null;
+  // Off by default; see OfflineQueue
+  offlineQueue: OfflineQueue | null = null;
+  // Off by default; see ResponseCache and Scope#cache
+  responseCache: ResponseCache | null = null;
+  attributeTypes: Object = {};
+  // milliseconds, 0 for none. Models can override with their own static timeout
+  timeout: number = 0;
+  // See RetryPolicy.defaults; retries are off until maxAttempts > 1
+  retry: retryOptions = {};
+  // Defaults to the global fetch. Models can override with their own static fetch
+  fetch: typeof fetch = null;
+  // How models write nested records: 'sideposting' (method/temp-id in
+  // relationships) or 'atomic' (JSON:API Atomic Operations)
+  writeFormat: string = 'sideposting';
+  // Appended to a model's fullBasePath for atomic:operations requests
+  operationsPath: string = '/operations';
+  // Defaults for batch(): 'atomic' or 'bulk', and where bulk
+  // documents are posted
+  batchFormat: string = 'atomic';
+  batchPath: string = '/batch';
+  beforeFetch: Array<Function> = []
+  afterFetch: Array<Function> = []
+
+  static register(model: typeof Model) : void {
+    registry.push(model);
+  }
+
+  // Accepts any of the settings above, e.g. { baseUrl, logger }
+  constructor(options: Object = {}) {
+    // In node, no localStorage available
+    // We do this so we can mock it
+    try {
+      this.localStorage = localStorage
+    } catch(e) {
+    }
+
+    Object.assign(this, options);
+  }
+
+  get models() : Array<typeof Model> {
+    return registry.filter((model) => {
+      return model.getApiContext() === this;
+    });
+  }
+
+  setup(options? : Object) : void {
+    if (!options) options = {};
+
+    this.jwtLocalStorage = options['jwtLocalStorage'];
+
+    if (options['identityMap'] instanceof IdentityMap) {
+      this.identityMap = options['identityMap'];
+    } else {
+      this.identityMap = options['identityMap'] ? new IdentityMap() : null;
+    }
+
+    if (options['offlineQueue'] instanceof OfflineQueue) {
+      this.offlineQueue = options['offlineQueue'];
+    } else {
+      this.offlineQueue = options['offlineQueue'] ? new OfflineQueue() : null;
+    }
+
+    if (this.offlineQueue) {
+      this.offlineQueue.context = this;
+    }
+
+    if (options['responseCache'] instanceof ResponseCache) {
+      this.responseCache = options['responseCache'];
+    } else {
+      this.responseCache = options['responseCache'] ? new ResponseCache() : null;
+    }
+
+    if (this.responseCache) {
+      this.responseCache.logger = this.logger;
+    }
+
+    let models = this.models;
+
+    for (let model of models) {
+      // subclasses sharing a jsonapiType are resolved through
+      // resolveClassFor on the topmost class
+      let mapped = this.typeMapping[model.jsonapiType];
+      if (!mapped || !(model.prototype instanceof mapped)) {
+        this.typeMapping[model.jsonapiType] = model;
+      }
+
+      if (options['jwtOwners'] && options['jwtOwners'].indexOf(model) !== -1) {
+        model.isJWTOwner = true;
+
+        if (this.jwtLocalStorage) {
+          model.jwt = this.localStorage.getItem(this.jwtLocalStorage);
+        }
+      }
+    }
+
+    for (let model of models) {
+      Attribute.applyAll(model);
+    }
+
+    for (let model of models) {
+      let parentAttrList = cloneDeep(model.parentClass.attributeList);
+      let attrList = cloneDeep(model.attributeList);
+      model.attributeList = Object.assign(parentAttrList, attrList);
+    }
+  }
+
+  // Sends the saves and destroys fn makes on the batch in one request.
+  // fn may return a promise. See Batch.
+  batch(fn: (tx: Batch) => any, options: batchOptions = {}) : Promise<boolean> {
+    let batch = new Batch(this, options);
+
+    return Promise.resolve(fn(batch)).then(() => {
+      return batch.commit();
+    });
+  }
+
+  // Forgets this context's models and type mapping
+  reset() : void {
+    this.typeMapping = {};
+    registry = registry.filter((model) => {
+      return model.getApiContext() !== this;
+    });
+  }
+
+  registerAttributeType(name: string, type: attributeType) : void {
+    this.attributeTypes[name] = type;
+  }
+
+  attributeTypeFor(name: string) : attributeType {
+    let type = this.attributeTypes[name] || builtinAttributeTypes[name];
+    if (type) {
+      return type;
+    } else {
+      throw(`Could not find attribute type "${name}"`)
+    }
+  }
+
+  modelForType(type: string) : typeof Model {
+    let klass = this.typeMapping[type];
+    if (klass) {
+      return klass;
+    } else {
+      throw(`Could not find class for jsonapi type "${type}"`)
+    }
+  }
+}
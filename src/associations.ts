@@ -1,17 +1,46 @@
 import Attribute from './attribute';
 import Model from './model';
+import { underscore, camelize } from './util/string';
 // Not sure why this is needed, already patching in main..
 import patchExtends from './custom-extend';
 patchExtends();
 
+// Naive, but only used to guess a default foreign key
+const singularize = function(str: string) : string {
+  return str.replace(/ies$/, 'y').replace(/s$/, '');
+}
+
 export class Base extends Attribute {
   klass: typeof Model;
   isRelationship = true;
+  isToMany = false;
   jsonapiType: string;
+  foreignKey: string;
+  // The class is chosen per record from its type, so klass is unset
+  polymorphic = false;
 
+  // hasMany('comments', { foreignKey: 'post_id' }), or just the options
   constructor(...args) {
     super();
-    this.jsonapiType = args[0];
+    let options = args[args.length - 1];
+
+    if (typeof args[0] === 'string') {
+      this.jsonapiType = args[0];
+    }
+
+    if (options && typeof options === 'object') {
+      this.foreignKey = options.foreignKey;
+      this.polymorphic = !!options.polymorphic;
+    }
+  }
+
+  // The filter used by Model#relation() to find related records when
+  // the server didn't send a related link
+  relationFilter(owner: Model) : Object {
+    let foreignKey = this.foreignKey ||
+      `${singularize(underscore(owner.klass.jsonapiType))}_id`;
+
+    return { [foreignKey]: owner.id };
   }
 
   getter(context: Model) {
@@ -21,6 +50,9 @@ export class Base extends Attribute {
   setter(context: Model, val: any) : void {
     if (val && !val.hasOwnProperty('isRelationship')) {
       if (!(val instanceof Model) && !(Array.isArray(val))) {
+        if (this.polymorphic) {
+          throw(`Polymorphic relationship "${this.name}" must be assigned Model instances`);
+        }
         val = new this.klass(val);
       }
       context.relationships[this.name] = val;
@@ -31,6 +63,8 @@ export class Base extends Attribute {
 }
 
 export class HasMany extends Base {
+  isToMany = true;
+
   getter(context: Model) {
     let gotten = super.getter(context);
     if (!gotten) {
@@ -46,6 +80,17 @@ export class HasOne extends Base {
 }
 
 export class BelongsTo extends Base {
+  // The foreign key is an attribute of the owner, e.g. authorId
+  relationFilter(owner: Model) : Object {
+    let foreignKey = this.foreignKey || camelize(`${underscore(this.name)}_id`);
+    let id = owner[foreignKey];
+
+    if (id === undefined || id === null) {
+      throw(`Cannot load "${this.name}" without a related link or ${foreignKey}`);
+    }
+
+    return { id };
+  }
 }
 
 const hasMany = function(...args) : HasMany {
@@ -1,20 +1,59 @@
-// In the future, this class will be used for
-// transforms, default values, etc.
+// Holds per-attribute options: persistence, type coercion,
+// default values and serialization hooks.
 
 import Model from './model';
 import Config from './configuration';
+import { deepEqual } from './util/deep-equal';
+import * as _cloneDeep from './util/clonedeep';
+let cloneDeep: any = (<any>_cloneDeep).default || _cloneDeep;
+if (cloneDeep.default) {
+  cloneDeep = cloneDeep.default;
+}
 
 export default class Attribute {
   name: string;
+  // The model class this attribute is defined on, set by applyAll
+  owner: typeof Model;
 
   persist: boolean = true;
+  type: string | attributeType;
+  hooks: attributeType = {};
+  hasDefault: boolean = false;
+  validations: Object = {};
   isAttr: boolean = true;
   isRelationship: boolean = false;
 
+  private _default: any;
+
   constructor(opts?: attributeOptions) {
     if (opts && opts.hasOwnProperty('persist')) {
       this.persist = opts.persist;
     }
+
+    if (opts && opts.type) {
+      this.type = opts.type;
+    }
+
+    if (opts && opts.hasOwnProperty('default')) {
+      this.hasDefault = true;
+      this._default = opts.default;
+    }
+
+    if (opts && opts.serialize) {
+      this.hooks.serialize = opts.serialize;
+    }
+
+    if (opts && opts.deserialize) {
+      this.hooks.deserialize = opts.deserialize;
+    }
+
+    if (opts && opts.isEqual) {
+      this.hooks.isEqual = opts.isEqual;
+    }
+
+    if (opts && opts.validates) {
+      this.validations = opts.validates;
+    }
   }
 
   static applyAll(klass: typeof Model) : void {
@@ -40,9 +79,10 @@ export default class Attribute {
 
         let attrInstance = instance[propName];
         attrInstance.name = propName;
+        attrInstance.owner = klass;
 
-        if (attrInstance.isRelationship) {
-          attrInstance.klass = Config.modelForType(attrInstance.jsonapiType || attrInstance.name);
+        if (attrInstance.isRelationship && !attrInstance.polymorphic) {
+          attrInstance.klass = klass.getApiContext().modelForType(attrInstance.jsonapiType || attrInstance.name);
         }
 
         callback(attrInstance);
@@ -68,6 +108,73 @@ export default class Attribute {
     }
   }
 
+  // Coerce a value coming from the server (or the constructor). Like
+  // the built-in types, null and undefined pass through untouched.
+  deserialize(value: any) : any {
+    if (value === null || value === undefined) return value;
+
+    let type = this._resolveType();
+
+    if (type && type.deserialize) {
+      value = type.deserialize(value);
+    }
+
+    if (this.hooks.deserialize) {
+      value = this.hooks.deserialize(value);
+    }
+
+    return value;
+  }
+
+  // Convert a value back into its wire format
+  serialize(value: any) : any {
+    if (value === null || value === undefined) return value;
+
+    let type = this._resolveType();
+
+    if (this.hooks.serialize) {
+      value = this.hooks.serialize(value);
+    }
+
+    if (type && type.serialize) {
+      value = type.serialize(value);
+    }
+
+    return value;
+  }
+
+  // Whether two values are the same for dirty checking. Uses a custom
+  // isEqual (the attribute's, then its type's) when there is one,
+  // otherwise compares the wire format structurally. A custom isEqual
+  // only sees values that aren't null or undefined.
+  isEqual(a: any, b: any) : boolean {
+    let isEqual = this._customIsEqual();
+    let aBlank = a === null || a === undefined;
+    let bBlank = b === null || b === undefined;
+
+    if (aBlank || bBlank) {
+      return aBlank && bBlank;
+    } else if (isEqual) {
+      return isEqual(a, b);
+    } else {
+      return deepEqual(this.serialize(a), this.serialize(b));
+    }
+  }
+
+  hasCustomEquality() : boolean {
+    return !!this._customIsEqual();
+  }
+
+  // Functions are called per instance; other values are copied so
+  // instances never share a default object or array
+  defaultValue() : any {
+    if (typeof this._default === 'function') {
+      return this._default();
+    } else {
+      return cloneDeep(this._default);
+    }
+  }
+
   // The model calls this setter
   setter(context: Model, val: any) : void {
     context.attributes[this.name] = val;
@@ -77,4 +184,20 @@ export default class Attribute {
   getter(context: Model) : any {
     return context.attributes[this.name];
   }
+
+  private _customIsEqual() : (a: any, b: any) => boolean {
+    let type = this._resolveType();
+    return this.hooks.isEqual || (type && type.isEqual);
+  }
+
+  // Resolved lazily, so custom types can be registered after models
+  // are defined
+  private _resolveType() : attributeType {
+    if (typeof this.type === 'string') {
+      let context = this.owner ? this.owner.getApiContext() : Config;
+      return context.attributeTypeFor(this.type);
+    } else {
+      return this.type;
+    }
+  }
 }
@@ -0,0 +1,116 @@
+/// <reference path="../types/index.d.ts" />
+
+import Model from './model';
+import Scope from './scope';
+import { CollectionProxy } from './proxies';
+
+// Native for-await looks up Symbol.asyncIterator; older runtimes
+// don't define it, in which case iterators can still be driven by
+// calling next() directly.
+const asyncIteratorSymbol : any = (typeof Symbol !== 'undefined' && Symbol['asyncIterator']) || '@@asyncIterator';
+
+// Walks every page of a scope, yielding a CollectionProxy per request.
+//
+// If the server sends `links`, we follow `links.next` until it is
+// absent. Otherwise we increment page[number] until we get back a page
+// that is empty, or shorter than the requested page[size].
+export class BatchIterator {
+  scope: Scope;
+  requestOptions: requestOptions;
+  private _pageNumber: number;
+  private _nextUrl: string;
+  private _done: boolean = false;
+
+  constructor(scope: Scope, requestOptions: requestOptions = {}) {
+    this.scope = scope;
+    this.requestOptions = requestOptions;
+    this._pageNumber = scope._pagination.number || 1;
+    this[asyncIteratorSymbol] = () => { return this; };
+  }
+
+  next() : Promise<IteratorResult<CollectionProxy<Model>>> {
+    if (this._done) return this._finish();
+
+    return this._fetchPage().then((json : japiDoc) => {
+      let collection = new CollectionProxy<Model>(json, this.scope.model);
+
+      this._advance(json, collection.data.length);
+
+      if (collection.data.length === 0) {
+        return this._finish();
+      } else {
+        return { done: false, value: collection };
+      }
+    }).catch((e) => {
+      this._done = true;
+      throw(e);
+    });
+  }
+
+  // Called by for-await when the loop exits early
+  return() : Promise<IteratorResult<CollectionProxy<Model>>> {
+    return this._finish();
+  }
+
+  // private
+
+  private _finish() : Promise<IteratorResult<any>> {
+    this._done = true;
+    return Promise.resolve({ done: true, value: undefined });
+  }
+
+  private _fetchPage() : Promise<Object> {
+    if (this._nextUrl) {
+      return this.scope._fetchUrl(this._nextUrl, this.requestOptions);
+    } else {
+      let pageScope = this.scope.page(this._pageNumber);
+      return pageScope._fetch(pageScope.collectionUrl(), this.requestOptions);
+    }
+  }
+
+  private _advance(json: japiDoc, count: number) : void {
+    if (json.links) {
+      // a link is a url, or an object with an href
+      let next = json.links.next;
+      this._nextUrl = typeof next === 'string' ? next : next && next['href'];
+      if (!this._nextUrl) this._done = true;
+    } else {
+      let size = this.scope._pagination.size;
+      this._pageNumber++;
+      if (size && count < size) this._done = true;
+    }
+  }
+}
+
+// Flattens a BatchIterator, yielding one record at a time
+export class RecordIterator {
+  batches: BatchIterator;
+  private _buffer: Array<Model> = [];
+
+  constructor(scope: Scope, requestOptions: requestOptions = {}) {
+    this.batches = new BatchIterator(scope, requestOptions);
+    this[asyncIteratorSymbol] = () => { return this; };
+  }
+
+  next() : Promise<IteratorResult<Model>> {
+    if (this._buffer.length > 0) {
+      return Promise.resolve({ done: false, value: this._buffer.shift() });
+    }
+
+    return this.batches.next().then((result) => {
+      if (result.done) {
+        return { done: true, value: undefined };
+      } else {
+        this._buffer = result.value.data.slice();
+        return this.next();
+      }
+    });
+  }
+
+  return() : Promise<IteratorResult<Model>> {
+    this._buffer = [];
+    return this.batches.return().then(() => {
+      return { done: true, value: undefined };
+    });
+  }
+}
@@ -0,0 +1,187 @@
+/// <reference path="../types/index.d.ts" />
+
+import Model from './model';
+import ApiContext from './api-context';
+import Request from './request';
+import IncludeDirective from './util/include-directive';
+import AtomicOperations from './util/atomic-operations';
+import BulkWrites from './util/bulk-writes';
+import refreshJWT from './util/refresh-jwt';
+import {
+  CallbackAbort,
+  runBeforeWriteCallbacks,
+  runAfterWriteCallbacks
+} from './util/callbacks';
+
+// Captures a record's local state, returning a function to restore it
+const snapshot = function(model: Model) : Function {
+  let relationships = {};
+
+  Object.keys(model.relationships).forEach((name) => {
+    let related = model.relationships[name];
+    relationships[name] = Array.isArray(related) ? related.slice() : related;
+  });
+
+  let state = {
+    id: model.id,
+    temp_id: model.temp_id,
+    _attributes: Object.assign({}, model._attributes),
+    _originalAttributes: Object.assign({}, model._originalAttributes),
+    _originalRelationships: Object.assign({}, model._originalRelationships),
+    _originalRelatedRecords: Object.assign({}, model._originalRelatedRecords),
+    _persisted: model._persisted,
+    _markedForDestruction: model._markedForDestruction,
+    _markedForDisassociation: model._markedForDisassociation,
+    errors: model.errors
+  };
+
+  return () => {
+    Object.assign(model, state);
+    model.relationships = relationships;
+  };
+}
+
+// The record and the nested records its include directive reaches
+const recordsFor = function(model: Model, includeDirective: Object) : Array<Model> {
+  let records = [model];
+
+  Object.keys(includeDirective).forEach((name) => {
+    [].concat(model[name] || []).forEach((related) => {
+      records = records.concat(recordsFor(related, includeDirective[name]));
+    });
+  });
+
+  return records;
+}
+
+// Collects saves and destroys of any records, then sends them in one
+// request. See ApiContext#batch:
+//
+// Config.batch((tx) => {
+//   lineItems.forEach((item) => { tx.save(item); });
+//   tx.save(product, { with: 'variants' });
+//   tx.destroy(oldItem);
+// }).then((success) => { ... });
+//
+// format is 'atomic' (JSON:API atomic:operations, posted to the
+// context's operationsPath) or 'bulk' (an array of sideposted
+// resources, posted to the context's batchPath). When the batch fails,
+// the records are restored to their state before it was sent.
+export default class Batch {
+  context: ApiContext;
+  format: string;
+  url: string;
+  requestOptions: requestOptions;
+  // The class whose settings (JWT, fetch options) the request uses;
+  // defaults to the first record's
+  modelClass: typeof Model;
+
+  private _writes: Array<{ model: Model, nested: Object, method: string }> = [];
+
+  constructor(context: ApiContext, options: batchOptions = {}) {
+    this.context = context;
+    this.format = options.format || context.batchFormat;
+    this.url = options.url;
+    this.requestOptions = options;
+  }
+
+  get size() : number {
+    return this._writes.length;
+  }
+
+  save(model: Model, options: { with?: any } = {}) : void {
+    let nested = new IncludeDirective(options.with).toObject();
+    let method = model.isPersisted() ? 'update' : 'create';
+    this._writes.push({ model, nested, method });
+  }
+
+  destroy(model: Model) : void {
+    this._writes.push({ model, nested: {}, method: 'destroy' });
+  }
+
+  // Sends the writes. Resolves to false, with errors assigned to each
+  // record, when any record is invalid or the server rejects the batch.
+  commit() : Promise<boolean> {
+    if (this._writes.length === 0) return Promise.resolve(true);
+
+    let invalid = this._writes.filter((write) => {
+      return write.method !== 'destroy' && !write.model.validate(write.nested);
+    });
+    if (invalid.length > 0) return Promise.resolve(false);
+
+    let restores = [];
+    this._writes.forEach((write) => {
+      recordsFor(write.model, write.nested).forEach((record) => {
+        restores.push(snapshot(record));
+      });
+    });
+    let rollback = () => {
+      restores.forEach((restore) => { restore(); });
+    };
+
+    let modelClass = this.modelClass || this._writes[0].model.klass;
+    let writer = this.format === 'atomic' ? new AtomicOperations() : new BulkWrites();
+    let json;
+
+    try {
+      this._writes.forEach((write) => {
+        runBeforeWriteCallbacks(write.model, write.method);
+
+        if (write.method === 'destroy') {
+          write.model.isMarkedForDestruction(true);
+        }
+
+        writer.add(write.model, write.nested);
+      });
+      json = writer.asJSON();
+    } catch(e) {
+      rollback();
+      return e instanceof CallbackAbort ? Promise.resolve(false) : Promise.reject(e);
+    }
+
+    let request = new Request(modelClass, this.requestOptions);
+    let fetchOptions = this.format === 'atomic' ? AtomicOperations.fetchOptions(modelClass) : modelClass.fetchOptions();
+
+    return request.post(this._url(modelClass), json, fetchOptions).then((response) => {
+      refreshJWT(modelClass, response);
+
+      if (response.status == 422) {
+        rollback();
+        writer.applyErrors(response['jsonPayload']);
+        return false;
+      }
+
+      try {
+        writer.applyResults(response['jsonPayload']);
+      } catch(e) {
+        rollback();
+        throw(e);
+      }
+
+      if (this.context.responseCache) {
+        this.context.responseCache.invalidate(writer.types);
+      }
+
+      writer.runAfterCallbacks();
+      this._writes.forEach((write) => {
+        runAfterWriteCallbacks(write.model, write.method);
+      });
+      return true;
+    }, (e) => {
+      rollback();
+      throw(e);
+    });
+  }
+
+  // private
+
+  private _url(modelClass: typeof Model) : string {
+    if (this.url) {
+      return this.url;
+    } else if (this.format === 'atomic') {
+      return modelClass.operationsUrl();
+    } else {
+      return `${modelClass.fullBasePath()}${this.context.batchPath}`;
+    }
+  }
+}
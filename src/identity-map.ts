@@ -0,0 +1,43 @@
+import Model from './model';
+
+// Tracks one instance per jsonapiType + id, so that records fetched by
+// separate requests resolve to the same object.
+//
+// Opt in with Config.setup({ identityMap: true }), or the setup of
+// another ApiContext; each context has its own map. Start a fresh
+// "session" by assigning a new map, or calling clear():
+//
+// Config.identityMap = new IdentityMap();
+export default class IdentityMap {
+  private _records: Object = {};
+
+  find(type: string, id: string) : Model {
+    let records = this._records[type];
+
+    if (records && id) {
+      return records[id];
+    }
+  }
+
+  add(model: Model) : void {
+    if (!model.id) return;
+
+    let type = model.klass.jsonapiType;
+    if (!this._records[type]) {
+      this._records[type] = {};
+    }
+    this._records[type][model.id] = model;
+  }
+
+  remove(model: Model) : void {
+    let records = this._records[model.klass.jsonapiType];
+
+    if (records && records[model.id] === model) {
+      delete records[model.id];
+    }
+  }
+
+  clear() : void {
+    this._records = {};
+  }
+}
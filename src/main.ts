@@ -8,8 +8,26 @@ import patchExtends from './custom-extend';
 patchExtends();
 
 import Config from './configuration';
+import ApiContext from './api-context';
+import Batch from './batch';
 import Model from './model';
 import Attribute from './attribute';
+import IdentityMap from './identity-map';
+import ResponseCache, { MemoryCacheStore } from './response-cache';
+import OfflineQueue, { MemoryQueueStorage, LocalStorageQueueStorage } from './offline-queue';
+import {
+  RequestError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  ResponseError,
+  NetworkError,
+  InvalidJSONError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+  ServerError
+} from './request';
 import attrDecorator from './util/attr-decorator';
 import { hasMany, hasOne, belongsTo } from './associations';
 
@@ -17,4 +35,32 @@ const attr = function(opts?: attributeOptions) : any {
   return new Attribute(opts);
 }
 
-export { Config, Model, attr, attrDecorator, hasMany, hasOne, belongsTo, patchExtends };
+export {
+  Config,
+  ApiContext,
+  Batch,
+  Model,
+  IdentityMap,
+  ResponseCache,
+  MemoryCacheStore,
+  OfflineQueue,
+  MemoryQueueStorage,
+  LocalStorageQueueStorage,
+  RequestError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  ResponseError,
+  NetworkError,
+  InvalidJSONError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+  ServerError,
+  attr,
+  attrDecorator,
+  hasMany,
+  hasOne,
+  belongsTo,
+  patchExtends
+};
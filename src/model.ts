@@ -2,6 +2,7 @@
 
 import Scope from './scope';
 import Config from './configuration';
+import ApiContext from './api-context';
 import Attribute from './attribute';
 import { deserialize, deserializeInstance } from './util/deserialize';
 import { CollectionProxy, RecordProxy } from './proxies';
@@ -11,9 +12,21 @@ import WritePayload from './util/write-payload';
 import IncludeDirective from './util/include-directive';
 import DirtyChecker from './util/dirty-check';
 import ValidationErrors from './util/validation-errors';
+import Validator from './util/validator';
+import {
+  CallbackAbort,
+  addCallback,
+  runCallbacks,
+  runBeforeWriteCallbacks,
+  runAfterWriteCallbacks
+} from './util/callbacks';
 import refreshJWT from './util/refresh-jwt';
 import relationshipIdentifiersFor from './util/relationship-identifiers';
-import Request from './request';
+import Request, { NetworkError } from './request';
+import tempId from './util/temp-id';
+import AtomicOperations from './util/atomic-operations';
+import Batch from './batch';
+import { BatchIterator, RecordIterator } from './batch-iterator';
 import * as _cloneDeep from './util/clonedeep';
 let cloneDeep: any = (<any>_cloneDeep).default || _cloneDeep;
 if (cloneDeep.default) {
@@ -21,7 +34,8 @@ if (cloneDeep.default) {
 }
 
 export default class Model {
-  static baseUrl = 'http://please-set-a-base-url.com';
+  // Falls back to the context's baseUrl
+  static baseUrl: string;
   static apiNamespace = '/';
   static jsonapiType = 'define-in-subclass';
   static endpoint: string;
@@ -29,14 +43,31 @@ export default class Model {
   static jwt: string = null;
   static parentClass: typeof Model;
   static camelizeKeys: boolean = true;
+  // Falls back to the parent class, then Config
+  static apiContext: ApiContext;
+  // HTTP verb save() uses for persisted records, 'put' or 'patch'
+  static updateVerb: string = 'put';
+  // Request timeout in milliseconds; falls back to the context's timeout
+  static timeout: number;
+  // Merged over the context's retry
+  static retry: retryOptions;
+  // Falls back to the parent class, then the context's fetch
+  static fetch: typeof fetch;
+  // How save() writes nested records, 'sideposting' or 'atomic'; falls
+  // back to the context's writeFormat
+  static writeFormat: string;
 
   id: string;
   temp_id: string;
   _attributes: Object = {};
   _originalAttributes: Object = {};
   _originalRelationships: Object = {};
+  // the related records themselves, by relationship name, for rollback()
+  _originalRelatedRecords: Object = {};
   relationships: Object = {};
-  errors: Object = {};
+  // links objects from the server, by relationship name
+  relationshipLinks: Object = {};
+  errors: validationErrors = {};
   __meta__: Object | void = null;
   _persisted: boolean = false;
   _markedForDestruction: boolean = false;
@@ -51,7 +82,7 @@ export default class Model {
   }
 
   static inherited(subclass : any) {
-    Config.models.push(subclass)
+    ApiContext.register(subclass)
     subclass.parentClass = this;
     subclass.prototype.klass = subclass;
     subclass.attributeList = cloneDeep(subclass.attributeList)
@@ -61,11 +92,22 @@ export default class Model {
     return this._scope || new Scope(this);
   }
 
+  static getApiContext() : ApiContext {
+    if (this.apiContext) {
+      return this.apiContext;
+    } else if (this.parentClass) {
+      return this.parentClass.getApiContext();
+    } else {
+      return Config;
+    }
+  }
+
   static setJWT(token: string) : void {
+    let context = this.getApiContext();
     this.getJWTOwner().jwt = token;
 
-    if (Config.jwtLocalStorage) {
-      Config.localStorage.setItem(Config.jwtLocalStorage, token)
+    if (context.jwtLocalStorage) {
+      context.localStorage.setItem(context.jwtLocalStorage, token)
     }
   }
 
@@ -92,18 +134,29 @@ export default class Model {
     return options
   }
 
-  static beforeFetch(url: RequestInfo, options: RequestInit) : void {
-    Config.beforeFetch.forEach((fn) => {
-      fn(url, options)
+  // attempt starts at 1, and increments as requests are retried
+  static beforeFetch(url: RequestInfo, options: RequestInit, attempt: number = 1) : void {
+    this.getApiContext().beforeFetch.forEach((fn) => {
+      fn(url, options, attempt)
     })
   }
 
   static afterFetch(response: Response, json: JSON) : void {
-    Config.afterFetch.forEach((fn) => {
+    this.getApiContext().afterFetch.forEach((fn) => {
       fn(response, json)
     })
   }
 
+  // Register a lifecycle callback, e.g.
+  //
+  // Person.addCallback('beforeSave', function() { this.name = this.name.trim(); });
+  //
+  // Subclasses run their parent's callbacks first. Return false from
+  // a before* callback to abort.
+  static addCallback(name: string, fn: Function) : void {
+    addCallback(this, name, fn);
+  }
+
   static getJWTOwner() : typeof Model {
     if (this.isJWTOwner) {
       return this;
@@ -116,16 +169,68 @@ export default class Model {
     }
   }
 
-  static all() : Promise<CollectionProxy<Model>> {
-    return this.scope().all();
+  // The fetch implementation used for every request, e.g. node-fetch
+  // or an in-memory fake. Defaults to the global fetch, looked up at
+  // request time so polyfills and mocks installed later are honored.
+  static getFetch() : typeof fetch {
+    let fetchImplementation = this._inheritedFetch() || this.getApiContext().fetch;
+
+    if (fetchImplementation) {
+      return fetchImplementation;
+    } else {
+      return (url: RequestInfo, options?: RequestInit) => {
+        return (typeof window === 'undefined' ? global : window)['fetch'](url, options);
+      }
+    }
+  }
+
+  private static _inheritedFetch() : typeof fetch {
+    if (this.fetch) {
+      return this.fetch;
+    } else if (this.parentClass) {
+      return this.parentClass._inheritedFetch();
+    }
+  }
+
+  // The class to deserialize a resource of this model's jsonapiType
+  // into. Override to return subclasses sharing the type, e.g.
+  //
+  // static resolveClassFor(resource) {
+  //   let attributes = resource.attributes || {};
+  //   return attributes.kind === 'manager' ? Manager : this;
+  // }
+  //
+  // attributes are missing for related resources that weren't included.
+  static resolveClassFor(resource: japiResource) : typeof Model {
+    return this;
+  }
+
+  static all(options?: requestOptions) : Promise<CollectionProxy<Model>> {
+    return this.scope().all(options);
+  }
+
+  static find(id : string | number, options?: requestOptions) : Promise<RecordProxy<Model>> {
+    return this.scope().find(id, options);
   }
 
-  static find(id : string | number) : Promise<RecordProxy<Model>> {
-    return this.scope().find(id);
+  static first(options?: requestOptions) : Promise<RecordProxy<Model>> {
+    return this.scope().first(options);
   }
 
-  static first() : Promise<RecordProxy<Model>> {
-    return this.scope().first();
+  static count(options?: requestOptions) : Promise<number> {
+    return this.scope().count(options);
+  }
+
+  static each(options?: requestOptions) : RecordIterator {
+    return this.scope().each(options);
+  }
+
+  static findInBatches(options?: requestOptions) : BatchIterator {
+    return this.scope().findInBatches(options);
+  }
+
+  static cache(options?: cacheOptions) : Scope {
+    return this.scope().cache(options);
   }
 
   static where(clause: Object) : Scope {
@@ -175,12 +280,50 @@ export default class Model {
     return base;
   }
 
+  // Where atomic:operations documents are posted
+  static operationsUrl() : string {
+    return `${this.fullBasePath()}${this.getApiContext().operationsPath}`;
+  }
+
+  static getWriteFormat() : string {
+    return this.writeFormat || this.getApiContext().writeFormat;
+  }
+
+  // Saves several records, or destroys those marked for destruction, in
+  // one atomic:operations request:
+  //
+  // post.title = 'Updated';
+  // comment.isMarkedForDestruction(true);
+  // Post.transaction([post, new Tag({ name: 'news' }), comment]);
+  //
+  // Resolves to false, with errors assigned to each record, when any is
+  // invalid or the server rejects any of them. A shorthand for an atomic
+  // ApiContext#batch sent with this class's settings.
+  static transaction(records: Array<Model>, options: requestOptions = {}) : Promise<boolean> {
+    let batch = new Batch(this.getApiContext(), Object.assign({}, options, {
+      format: 'atomic',
+      url: this.operationsUrl()
+    }));
+    batch.modelClass = this;
+
+    records.forEach((record) => {
+      if (record.isMarkedForDestruction()) {
+        batch.destroy(record);
+      } else {
+        batch.save(record);
+      }
+    });
+
+    return batch.commit();
+  }
+
   static fullBasePath() : string {
-    return `${this.baseUrl}${this.apiNamespace}`;
+    let baseUrl = this.baseUrl || this.getApiContext().baseUrl;
+    return `${baseUrl}${this.apiNamespace}`;
   }
 
   static fromJsonapi(resource: japiResource, payload: japiDoc) : any {
-    return deserialize(resource, payload);
+    return deserialize(resource, payload, this.getApiContext());
   }
 
   static generateAuthHeader(jwt: string) : string {
@@ -189,9 +332,9 @@ export default class Model {
 
   constructor(attributes?: Object) {
     this._initializeAttributes();
-    this.attributes = attributes;
+    this.assignAttributes(attributes);
     this._originalAttributes = cloneDeep(this.attributes);
-    this._originalRelationships = this.relationshipResourceIdentifiers(Object.keys(this.relationships));
+    this.resetRelationTracking(this.relationships);
   }
 
   clearErrors() {
@@ -200,11 +343,14 @@ export default class Model {
 
   // Todo:
   // * needs to recurse the directive
-  // * remove the corresponding code from isPersisted and handle here (likely
-  // only an issue with test setup)
-  // * Make all calls go through resetRelationTracking();
   resetRelationTracking(includeDirective: Object) {
-    this._originalRelationships = this.relationshipResourceIdentifiers(Object.keys(includeDirective));
+    let relationNames = Object.keys(includeDirective);
+    this._originalRelationships = this.relationshipResourceIdentifiers(relationNames);
+
+    relationNames.forEach((name) => {
+      let related = this.relationships[name];
+      this._originalRelatedRecords[name] = Array.isArray(related) ? related.slice() : related;
+    });
   }
 
   relationshipResourceIdentifiers(relationNames: Array<string>) {
@@ -228,6 +374,9 @@ export default class Model {
     this.assignAttributes(attrs);
   }
 
+  // Attributes given here are in wire format, as the server would send
+  // them, and go through each attribute's deserialize. Setters take
+  // model-side values as they are.
   assignAttributes(attrs: Object) {
     for(var key in attrs) {
       let attributeName = key;
@@ -236,8 +385,12 @@ export default class Model {
         attributeName = camelize(key);
       }
 
-      if (key == 'id' || this.klass.attributeList[attributeName]) {
+      let attribute = this.klass.attributeList[attributeName];
+
+      if (key == 'id') {
         this[attributeName] = attrs[key];
+      } else if (attribute) {
+        this[attributeName] = attribute.deserialize(attrs[key]);
       }
     }
   }
@@ -246,7 +399,7 @@ export default class Model {
     if (val != undefined) {
       this._persisted = val;
       this._originalAttributes = cloneDeep(this.attributes);
-      this._originalRelationships = this.relationshipResourceIdentifiers(Object.keys(this.relationships));
+      this.resetRelationTracking(this.relationships);
       return val;
     } else {
       return this._persisted;
@@ -279,6 +432,34 @@ export default class Model {
     return Object.keys(this.errors).length > 1;
   }
 
+  // e.g. ["First name can't be blank", "Title is too long"]
+  fullMessages() : Array<string> {
+    return Object.keys(this.errors).reduce((messages, attribute) => {
+      return messages.concat(this.fullMessagesFor(attribute));
+    }, []);
+  }
+
+  fullMessagesFor(attribute: string) : Array<string> {
+    return (this.errors[attribute] || []).map((error) => {
+      return error.fullMessage;
+    });
+  }
+
+  // Run client-side validations, populating #errors. Pass
+  // relationships to also validate nested records, like save({ with })
+  validate(relationships?: Object | Array<any> | string) : boolean {
+    if (!runCallbacks(this, 'beforeValidate')) {
+      return false;
+    }
+
+    let validator = new Validator(this);
+    return validator.validate(relationships);
+  }
+
+  isValid(relationships?: Object | Array<any> | string) : boolean {
+    return this.validate(relationships);
+  }
+
   isDirty(relationships?: Object | Array<any> | string) : boolean {
     let dc = new DirtyChecker(this);
     return dc.check(relationships);
@@ -289,42 +470,254 @@ export default class Model {
     return dc.dirtyAttributes();
   }
 
+  // Like changes(), keyed by the paths that changed within object and
+  // array attributes, e.g. { 'settings.theme': ['light', 'dark'] }
+  changedPaths() : Object {
+    let dc = new DirtyChecker(this);
+    return dc.dirtyPaths();
+  }
+
+  // Per relationship, the members added, removed, marked for
+  // destruction or disassociation, or replaced since last loaded or
+  // saved. Pass relationships, like isDirty, to also list members with
+  // unsaved changes of their own:
+  //
+  // post.relationshipChanges({ comments: 'author' });
+  // // => { comments: { added: [comment], removed: [], destroyed: [], disassociated: [], changed: [] } }
+  relationshipChanges(relationships?: Object | Array<any> | string) : { [name: string]: relationshipChange } {
+    let dc = new DirtyChecker(this);
+    return dc.dirtyRelationships(relationships);
+  }
+
   hasDirtyRelation(relationName: string, relatedModel: Model) : boolean {
     let dc = new DirtyChecker(this);
     return dc.checkRelation(relationName, relatedModel);
   }
 
+  // Discard unsaved changes: attributes and relationships go back to
+  // how they were last loaded or saved, related records lose their
+  // destroy/disassociate marks, and errors are cleared. Pass
+  // relationships, like isDirty, to also roll back nested records:
+  //
+  // post.rollback({ comments: 'author' });
+  rollback(relationships?: Object | Array<any> | string) : void {
+    let includeHash = new IncludeDirective(relationships).toObject();
+
+    this._attributes = cloneDeep(this._originalAttributes);
+
+    Object.keys(this._originalRelatedRecords).forEach((name) => {
+      let related = this._originalRelatedRecords[name];
+      this.relationships[name] = Array.isArray(related) ? related.slice() : related;
+
+      [].concat(related || []).forEach((record) => {
+        record.isMarkedForDestruction(false);
+        record.isMarkedForDisassociation(false);
+      });
+    });
+
+    Object.keys(includeHash).forEach((name) => {
+      [].concat(this.relationships[name] || []).forEach((record) => {
+        record.rollback(includeHash[name]);
+      });
+    });
+
+    this.clearErrors();
+  }
+
+  // Re-fetch from the server into this same instance, discarding local
+  // changes (see rollback), including to the included records. Accepts
+  // { includes, select } like the equivalent scopes, plus requestOptions.
+  reload(options: Object = {}) : Promise<Model> {
+    let scope = this.klass.scope();
+    let includeDirective = new IncludeDirective(options['includes']).toObject();
+
+    if (options['includes']) {
+      scope = scope.includes(options['includes']);
+    }
+
+    if (options['select']) {
+      scope = scope.select(options['select']);
+    }
+
+    return scope._fetch(this.klass.url(this.id), options).then((json : japiDoc) => {
+      // the response may leave attributes out, e.g. with select
+      this.rollback(includeDirective);
+      this._pruneRelationships(json.data, includeDirective);
+      this.fromJsonapi(json.data, json, includeDirective);
+      return this;
+    });
+  }
+
+  // A Scope for a relationship's records, following the related link
+  // from the server when there is one, otherwise filtering the related
+  // model by this record (see the association's foreignKey option):
+  //
+  // post.relation('comments').where({ approved: true }).order('created_at').all()
+  relation(name: string) : Scope {
+    let association = this.klass.attributeList[name];
+    if (!association || !association.isRelationship) {
+      throw(`Unknown relationship "${name}" for ${this.klass.jsonapiType}`);
+    }
+
+    let links = this.relationshipLinks[name] || {};
+    let related = links['related'];
+
+    if (association.polymorphic) {
+      if (!related) {
+        throw(`Cannot load polymorphic "${name}" without a related link`);
+      }
+
+      // records are deserialized by their own type; this class only
+      // supplies request settings like the JWT
+      return this.klass.scope().fromUrl(typeof related === 'string' ? related : related.href);
+    }
+
+    let scope = association.klass.scope();
+    if (related) {
+      return scope.fromUrl(typeof related === 'string' ? related : related.href);
+    } else {
+      return scope.where(association.relationFilter(this));
+    }
+  }
+
+  // Fetch a relationship that wasn't included, assigning and resolving
+  // its records. Accepts requestOptions.
+  load(name: string, options?: requestOptions) : Promise<Model | Array<Model>> {
+    let association = this.klass.attributeList[name];
+    let scope;
+
+    try {
+      scope = this.relation(name);
+    } catch(e) {
+      return Promise.reject(e);
+    }
+
+    let promise;
+    if (association.isToMany) {
+      promise = scope.all(options);
+    } else if ((this.relationshipLinks[name] || {})['related']) {
+      // a to-one related link responds with the resource itself, and
+      // may not accept pagination
+      promise = scope._fetch(scope.collectionUrl(), options).then((json : japiDoc) => {
+        return new RecordProxy<Model>(json, scope.model);
+      });
+    } else {
+      promise = scope.first(options);
+    }
+
+    return promise.then((proxy) => {
+      this[name] = proxy.data;
+
+      // freshly loaded, so not a change to save
+      let identifiers = this.relationshipResourceIdentifiers([name]);
+      if (identifiers[name]) {
+        this._originalRelationships[name] = identifiers[name];
+      } else {
+        delete this._originalRelationships[name];
+      }
+      this._originalRelatedRecords[name] = Array.isArray(proxy.data) ? proxy.data.slice() : proxy.data;
+
+      return proxy.data;
+    });
+  }
+
   dup() : Model {
     return cloneDeep(this);
   }
 
-  destroy() : Promise<any> {
+  destroy(options: requestOptions = {}) : Promise<any> {
     let url     = this.klass.url(this.id);
     let verb    = 'delete';
-    let request = new Request(this.klass);
+    let request = new Request(this.klass, options);
+
+    try {
+      runBeforeWriteCallbacks(this, 'destroy');
+    } catch(e) {
+      return this._abortWrite(e);
+    }
 
-    let requestPromise = request.delete(url, this._fetchOptions());
-    return this._writeRequest(requestPromise, () => {
+    let write = { type: this.klass.jsonapiType, method: verb, url };
+    let send  = () => { return request.delete(url, this._fetchOptions()); };
+    return this._writeRequest(write, send, () => {
       this.isPersisted(false);
+      this._invalidateCache([this.klass.jsonapiType]);
+
+      let identityMap = this.klass.getApiContext().identityMap;
+      if (identityMap) {
+        identityMap.remove(this);
+      }
+
+      runAfterWriteCallbacks(this, 'destroy');
     });
   }
 
   save(options: Object = {}) : Promise<any> {
     let url     = this.klass.url();
     let verb    = 'post';
-    let request = new Request(this.klass);
+    let method  = 'create';
+    let request = new Request(this.klass, options);
     let payload = new WritePayload(this, options['with']);
+    let json;
 
     if (this.isPersisted()) {
-      url  = this.klass.url(this.id);
-      verb = 'put';
+      url    = this.klass.url(this.id);
+      verb   = this.klass.updateVerb;
+      method = 'update';
     }
 
-    let json = payload.asJSON();
-    let requestPromise = request[verb](url, json, this._fetchOptions());
-    return this._writeRequest(requestPromise, (response) => {
+    // Nested records run their before callbacks as the payload is built
+    try {
+      if (!this.validate(options['with'])) {
+        return Promise.resolve(false);
+      }
+
+      if (this.klass.getWriteFormat() === 'atomic') {
+        return this._saveAtomic(options, method);
+      }
+
+      runBeforeWriteCallbacks(this, method);
+      json = payload.asJSON();
+    } catch(e) {
+      return this._abortWrite(e);
+    }
+
+    let write = { type: this.klass.jsonapiType, method: verb, url, payload: json };
+    let send  = () => { return request[verb](url, json, this._fetchOptions()); };
+    return this._writeRequest(write, send, (response) => {
       this.fromJsonapi(response['jsonPayload'].data, response['jsonPayload'], payload.includeDirective);
       payload.postProcess();
+      this._invalidateCache([this.klass.jsonapiType].concat(payload.processed.map((p) => {
+        return p.model.klass.jsonapiType;
+      })));
+      payload.runAfterCallbacks();
+      runAfterWriteCallbacks(this, method);
+    });
+  }
+
+  // save(), writing this record and the nested ones as atomic:operations
+  private _saveAtomic(options: Object, method: string) : Promise<any> {
+    let request    = new Request(this.klass, options);
+    let operations = new AtomicOperations();
+    let json;
+
+    try {
+      runBeforeWriteCallbacks(this, method);
+      operations.add(this, options['with']);
+      json = operations.asJSON();
+    } catch(e) {
+      return this._abortWrite(e);
+    }
+
+    let url   = this.klass.operationsUrl();
+    let write = { type: this.klass.jsonapiType, method: 'post', url, payload: json, format: 'atomic' };
+    let send  = () => { return request.post(url, json, AtomicOperations.fetchOptions(this.klass)); };
+    return this._writeRequest(write, send, (response) => {
+      operations.applyResults(response['jsonPayload']);
+      this._invalidateCache(operations.types);
+      operations.runAfterCallbacks();
+      runAfterWriteCallbacks(this, method);
+    }, (json) => {
+      operations.applyErrors(json);
     });
   }
 
@@ -333,23 +726,103 @@ export default class Model {
     for (let key in this.klass.attributeList) {
       let attr = this.klass.attributeList[key];
       Object.defineProperty(this, attr.name, attr.descriptor());
-      this[key] = this[key]; // set defaults
+
+      if (attr.hasDefault) {
+        this[key] = attr.defaultValue();
+      } else if (attr.isRelationship) {
+        this[key] = this[key]; // set defaults
+      }
     }
   }
 
-  private _writeRequest(requestPromise : Promise<any>, callback: Function) : Promise<any> {
+  // Drop related records the server no longer returns, so deserializing
+  // into this instance replaces rather than appends
+  private _pruneRelationships(resource: japiResource, includeDirective: Object) : void {
+    let relationships = resource.relationships || {};
+
+    for (let key in relationships) {
+      let relationName = key;
+
+      if (this.klass.camelizeKeys) {
+        relationName = camelize(key);
+      }
+
+      let relationData = relationships[key].data;
+      if (!includeDirective[relationName] || relationData === undefined) continue;
+
+      let current = this.relationships[relationName];
+      let identifiers = [].concat(relationData || []);
+      let stillRelated = (r) => {
+        return identifiers.some((ri) => {
+          return ri.type === r.klass.jsonapiType && ri.id === r.id;
+        });
+      };
+
+      if (Array.isArray(current)) {
+        this.relationships[relationName] = current.filter(stillRelated);
+      } else if (current && !stillRelated(current)) {
+        this.relationships[relationName] = null;
+      }
+    }
+  }
+
+  // With an offline queue, writes made while it holds earlier writes,
+  // or that fail to reach the server, are queued and resolve to true.
+  // Waits for the queue to load stored writes, so those are sent first.
+  private _writeRequest(write: queuedWrite, send: () => Promise<any>, callback: Function, applyErrors?: Function) : Promise<any> {
+    let queue = this.klass.getApiContext().offlineQueue;
+
+    if (!queue) {
+      return this._sendWrite(write, send, callback, applyErrors);
+    }
+
+    return queue.ready().then(() => {
+      if (queue.isHolding()) {
+        return this._enqueueWrite(write, callback, applyErrors);
+      } else {
+        return this._sendWrite(write, send, callback, applyErrors);
+      }
+    });
+  }
+
+  private _sendWrite(write: queuedWrite, send: () => Promise<any>, callback: Function, applyErrors?: Function) : Promise<any> {
+    let queue = this.klass.getApiContext().offlineQueue;
+
     return new Promise((resolve, reject) => {
-      return requestPromise.then((response) => {
-        this._handleResponse(response, resolve, reject, callback);
+      return send().then((response) => {
+        this._handleResponse(response, resolve, reject, callback, applyErrors);
+      }, (e) => {
+        if (queue && e instanceof NetworkError) {
+          this._enqueueWrite(write, callback, applyErrors).then(resolve, reject);
+        } else {
+          reject(e);
+        }
       }).catch(reject)
     });
   }
 
-  private _handleResponse(response: any, resolve: Function, reject: Function, callback: Function) : void {
+  private _enqueueWrite(write: queuedWrite, callback: Function, applyErrors?: Function) : Promise<any> {
+    let queue = this.klass.getApiContext().offlineQueue;
+
+    // lets later queued writes refer to this record before it has an id.
+    // Atomic operations already carry a lid for each new record.
+    if (write.method === 'post' && write.format !== 'atomic' && !write.payload['data']['temp-id']) {
+      this.temp_id = this.temp_id || tempId.generate();
+      write.payload['data']['temp-id'] = this.temp_id;
+    }
+
+    return queue.enqueue(write, this, callback, applyErrors).then(() => { return true; });
+  }
+
+  private _handleResponse(response: any, resolve: Function, reject: Function, callback: Function, applyErrors?: Function) : void {
     refreshJWT(this.klass, response);
 
     if (response.status == 422) {
-      ValidationErrors.apply(this, response['jsonPayload']);
+      if (applyErrors) {
+        applyErrors(response['jsonPayload']);
+      } else {
+        ValidationErrors.apply(this, response['jsonPayload']);
+      }
       resolve(false);
     } else {
       callback(response);
@@ -357,6 +830,24 @@ export default class Model {
     }
   }
 
+  // A callback returning false resolves the write to false, same as a
+  // validation failure. Anything thrown rejects.
+  private _abortWrite(e: any) : Promise<any> {
+    if (e instanceof CallbackAbort) {
+      return Promise.resolve(false);
+    } else {
+      return Promise.reject(e);
+    }
+  }
+
+  private _invalidateCache(types: Array<string>) : void {
+    let cache = this.klass.getApiContext().responseCache;
+
+    if (cache) {
+      cache.invalidate(types);
+    }
+  }
+
   private _fetchOptions() : RequestInit {
     return this.klass.fetchOptions()
   }
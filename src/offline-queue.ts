@@ -0,0 +1,372 @@
+/// <reference path="../types/index.d.ts" />
+
+import Model from './model';
+import ApiContext from './api-context';
+import Request, { NetworkError, ResponseError } from './request';
+import ValidationErrors from './util/validation-errors';
+import refreshJWT from './util/refresh-jwt';
+import AtomicOperations from './util/atomic-operations';
+
+// Keeps writes in memory only, so they are lost on reload
+class MemoryQueueStorage implements offlineQueueStorage {
+  private _writes: Array<queuedWrite> = [];
+
+  load() : Array<queuedWrite> {
+    return this._writes;
+  }
+
+  save(writes: Array<queuedWrite>) : void {
+    this._writes = writes;
+  }
+}
+
+// Keeps writes as JSON under a localStorage key
+class LocalStorageQueueStorage implements offlineQueueStorage {
+  key: string;
+  localStorage: any;
+
+  constructor(key: string = 'jsormOfflineQueue', storage?: any) {
+    this.key = key;
+    this.localStorage = storage;
+
+    if (!this.localStorage) {
+      try {
+        this.localStorage = localStorage;
+      } catch(e) {
+        throw('localStorage is not available; pass a storage to LocalStorageQueueStorage');
+      }
+    }
+  }
+
+  load() : Array<queuedWrite> {
+    let json = this.localStorage.getItem(this.key);
+    return json ? JSON.parse(json) : [];
+  }
+
+  save(writes: Array<queuedWrite>) : void {
+    this.localStorage.setItem(this.key, JSON.stringify(writes));
+  }
+}
+
+// A queued write, plus what only exists in memory: the record that
+// made it and what to do with the record once the server responds,
+// including how to assign the errors of a 422
+interface queueEntry {
+  write: queuedWrite;
+  model?: Model;
+  callback?: Function;
+  applyErrors?: Function;
+}
+
+// Holds writes (save and destroy) that failed with a NetworkError, and
+// replays them in order once the app reports it's back online:
+//
+// Config.setup({ offlineQueue: new OfflineQueue({ storage: new LocalStorageQueueStorage() }) });
+// window.addEventListener('online', () => { Config.offlineQueue.online(); });
+// Config.offlineQueue.subscribe((queue) => { showPending(queue.size); });
+//
+// While writes are pending, new writes join the end of the queue so the
+// server sees them in order. save() and destroy() resolve to true once
+// queued.
+export default class OfflineQueue {
+  storage: offlineQueueStorage;
+  // Assigned by ApiContext#setup, and used to find model classes when
+  // replaying writes restored from storage
+  context: ApiContext;
+
+  private _entries: Array<queueEntry> = [];
+  private _subscribers: Array<Function> = [];
+  private _ready: Promise<any>;
+  private _loaded: boolean = false;
+  private _replaying: Promise<replayResult>;
+  private _sending: queueEntry;
+  // temp-id => server id, for writes that reference records created
+  // by earlier writes
+  private _ids: Object = {};
+
+  constructor(options: { storage?: offlineQueueStorage } = {}) {
+    this.storage = options.storage || new MemoryQueueStorage();
+    this._ready = Promise.resolve(this.storage.load()).then((writes) => {
+      this._entries = (writes || []).map((write) => { return { write }; });
+      this._notify();
+    });
+    this.ready().then(() => { this._loaded = true; });
+  }
+
+  // Resolves once stored writes are loaded, or failed to load
+  ready() : Promise<any> {
+    return this._ready.then(() => {}, () => {});
+  }
+
+  get size() : number {
+    return this._entries.length;
+  }
+
+  get writes() : Array<queuedWrite> {
+    return this._entries.map((entry) => { return entry.write; });
+  }
+
+  // Once writes are queued, later writes must wait their turn. Until
+  // stored writes are loaded, we can't know there are none.
+  isHolding() : boolean {
+    return !this._loaded || this._entries.length > 0 || !!this._replaying;
+  }
+
+  isPending(model: Model) : boolean {
+    return this._entries.some((entry) => { return entry.model === model; });
+  }
+
+  // Calls fn with the queue whenever writes are added or removed.
+  // Returns a function to unsubscribe.
+  subscribe(fn: Function) : Function {
+    this._subscribers.push(fn);
+
+    return () => {
+      this._subscribers = this._subscribers.filter((s) => { return s !== fn; });
+    };
+  }
+
+  enqueue(write: queuedWrite, model?: Model, callback?: Function, applyErrors?: Function) : Promise<any> {
+    return this._ready.then(() => {
+      let pendingCreate = model && this._entries.filter((entry) => {
+        return entry.model === model && entry.write.method === 'post' && entry !== this._sending;
+      })[0];
+
+      if (pendingCreate && write.method === 'delete') {
+        // never reached the server, so nothing to destroy
+        this._entries.splice(this._entries.indexOf(pendingCreate), 1);
+      } else if (pendingCreate) {
+        // still unpersisted, so send the latest version as one create
+        pendingCreate.write = write;
+        pendingCreate.callback = callback;
+        pendingCreate.applyErrors = applyErrors;
+      } else {
+        write.queuedAt = Date.now();
+        this._entries.push({ write, model, callback, applyErrors });
+      }
+
+      return this._persist();
+    });
+  }
+
+  // The app is back online
+  online() : Promise<replayResult> {
+    return this.replay();
+  }
+
+  // Sends queued writes in order, stopping at the first network failure.
+  // Writes the server rejects are dropped and reported in the result.
+  replay() : Promise<replayResult> {
+    if (this._replaying) return this._replaying;
+
+    let result: replayResult = { synced: 0, failed: [] };
+
+    let next = () : Promise<replayResult> => {
+      let entry = this._entries[0];
+      if (!entry) return Promise.resolve(result);
+
+      this._sending = entry;
+
+      return this._send(entry).then((error) => {
+        this._sending = null;
+
+        if (error) {
+          result.failed.push({ write: entry.write, error });
+        } else {
+          result.synced++;
+        }
+
+        this._entries.splice(this._entries.indexOf(entry), 1);
+        return this._persist().then(next);
+      }, (e) => {
+        this._sending = null;
+
+        if (e instanceof NetworkError) {
+          return result; // still offline
+        } else {
+          throw(e);
+        }
+      });
+    };
+
+    let finish = () => { this._replaying = null; };
+
+    this._replaying = this._ready.then(next).then((r) => {
+      finish();
+      return r;
+    }, (e) => {
+      finish();
+      throw(e);
+    });
+
+    return this._replaying;
+  }
+
+  clear() : Promise<any> {
+    return this._ready.then(() => {
+      this._entries = [];
+      return this._persist();
+    });
+  }
+
+  // private
+
+  private _notify() : void {
+    this._subscribers.forEach((fn) => { fn(this); });
+  }
+
+  private _persist() : Promise<any> {
+    return Promise.resolve(this.storage.save(this.writes)).then(() => {
+      this._notify();
+    });
+  }
+
+  // Resolves to an error when the server rejected the write
+  private _send(entry: queueEntry) : Promise<Error | void> {
+    let write = entry.write;
+    let modelClass = entry.model ? entry.model.klass : this.context.modelForType(write.type);
+    let request = new Request(modelClass);
+    let options = write.format === 'atomic' ? AtomicOperations.fetchOptions(modelClass) : modelClass.fetchOptions();
+    let promise;
+
+    this._reconcileIds(write.payload);
+    this._reconcileCreate(write, modelClass);
+
+    if (write.method === 'delete') {
+      promise = request.delete(write.url, options);
+    } else {
+      promise = request[write.method](write.url, write.payload, options);
+    }
+
+    return promise.then((response) => {
+      let json = response['jsonPayload'];
+      refreshJWT(modelClass, response);
+
+      if (response.status === 422) {
+        if (entry.applyErrors) {
+          entry.applyErrors(json);
+        } else if (entry.model) {
+          ValidationErrors.apply(entry.model, json);
+        }
+        return new ResponseError(response, 'Unprocessable Entity', { url: write.url, method: write.method, json });
+      }
+
+      this._recordIds(write, json);
+      if (entry.callback) entry.callback(response);
+    }, (e) => {
+      if (e instanceof NetworkError) throw(e);
+      return e;
+    });
+  }
+
+  // Remember server ids assigned to records sent with temp-ids, or
+  // with lids in atomic operations
+  private _recordIds(write: queuedWrite, json: japiDoc) : void {
+    if (write.format === 'atomic') {
+      let results = (json && json['atomic:results']) || [];
+
+      write.payload['atomic:operations'].forEach((operation, index) => {
+        let data = operation.data;
+        let result = results[index] && results[index].data;
+
+        if (operation.op === 'add' && data && data.lid && result && result.id) {
+          this._ids[`${data.type}:${data.lid}`] = result.id;
+        }
+      });
+      return;
+    }
+
+    let data = write.payload && write.payload['data'];
+    if (data && data['temp-id'] && json && json.data && !Array.isArray(json.data)) {
+      this._ids[`${data.type}:${data['temp-id']}`] = (<japiResource>json.data).id;
+    }
+
+    if (!json) return;
+    let resources = [].concat(json.data || [], json.included || []);
+
+    resources.forEach((resource) => {
+      if (resource['temp-id'] && resource.id) {
+        this._ids[`${resource.type}:${resource['temp-id']}`] = resource.id;
+      }
+    });
+  }
+
+  // A save made while the record's create was being sent was queued as
+  // another create; send it as an update now that the record has an id
+  private _reconcileCreate(write: queuedWrite, modelClass: typeof Model) : void {
+    let data = write.payload && write.payload['data'];
+    if (write.method !== 'post' || write.format === 'atomic' || !data || Array.isArray(data)) return;
+
+    let id = this._ids[`${data['type']}:${data['temp-id']}`];
+    if (!id) return;
+
+    data['id'] = id;
+    delete data['temp-id'];
+    write.method = modelClass.updateVerb;
+    write.url = modelClass.url(id);
+  }
+
+  // Point resource identifiers at records created by earlier writes
+  private _reconcileIds(payload: Object) : void {
+    if (!payload) return;
+
+    if (payload['atomic:operations']) {
+      this._reconcileOperations(payload['atomic:operations']);
+      return;
+    }
+
+    let reconcile = (resource: Object) => {
+      let id = resource && this._ids[`${resource['type']}:${resource['temp-id']}`];
+
+      if (id) {
+        resource['id'] = id;
+        delete resource['temp-id'];
+        if (resource['method'] === 'create') resource['method'] = 'update';
+      }
+    };
+
+    let resources = [].concat(payload['data'] || [], payload['included'] || []);
+    resources.forEach((resource) => {
+      let relationships = resource.relationships || {};
+
+      Object.keys(relationships).forEach((name) => {
+        [].concat(relationships[name].data || []).forEach(reconcile);
+      });
+    });
+
+    (payload['included'] || []).forEach(reconcile);
+  }
+
+  // Refer to records created by earlier writes by id rather than lid,
+  // updating rather than adding them again
+  private _reconcileOperations(operations: Array<atomicOperation>) : void {
+    let reconcile = (identifier: Object) : boolean => {
+      let id = identifier && identifier['lid'] && this._ids[`${identifier['type']}:${identifier['lid']}`];
+
+      if (id) {
+        identifier['id'] = id;
+        delete identifier['lid'];
+      }
+
+      return !!id;
+    };
+
+    operations.forEach((operation) => {
+      let data = operation.data;
+
+      if (operation.ref) reconcile(operation.ref);
+
+      if (Array.isArray(data)) {
+        data.forEach(reconcile);
+      } else if (data) {
+        if (reconcile(data) && operation.op === 'add') operation.op = 'update';
+
+        Object.keys(data['relationships'] || {}).forEach((name) => {
+          [].concat(data['relationships'][name].data || []).forEach(reconcile);
+        });
+      }
+    });
+  }
+}
+
+export { MemoryQueueStorage, LocalStorageQueueStorage };
@@ -2,9 +2,12 @@ import Model from '../model';
 
 class CollectionProxy<T> implements IResultProxy<T> {
   private _raw_json : japiDoc;
+  private _modelClass : typeof Model;
   private _array : Array<T>;
 
-  constructor (raw_json : japiDoc = { data: [] }) {
+  // modelClass decides the ApiContext records are deserialized with
+  constructor (raw_json : japiDoc = { data: [] }, modelClass: typeof Model = Model) {
+    this._modelClass = modelClass;
     this.setRaw(raw_json);
   }
 
@@ -20,13 +23,17 @@ class CollectionProxy<T> implements IResultProxy<T> {
     return this.raw.meta || {};
   }
 
+  get stats () : japiStats {
+    return this.meta['stats'] || {};
+  }
+
   private setRaw = (json_payload : japiDoc) => {
     this._raw_json = json_payload;
 
     this._array = [];
 
     this.raw.data.map((datum : japiResource) => {
-      this._array.push(Model.fromJsonapi(datum, this.raw));
+      this._array.push(this._modelClass.fromJsonapi(datum, this.raw));
     });
   }
 }
@@ -2,9 +2,12 @@ import Model from '../model';
 
 class RecordProxy<T> implements IResultProxy<T> {
   private _raw_json : japiDoc;
+  private _modelClass : typeof Model;
   private _model : T;
 
-  constructor (raw_json : japiDoc = { data: [] }) {
+  // modelClass decides the ApiContext records are deserialized with
+  constructor (raw_json : japiDoc = { data: [] }, modelClass: typeof Model = Model) {
+    this._modelClass = modelClass;
     this.setRaw(raw_json);
   }
 
@@ -24,7 +27,7 @@ class RecordProxy<T> implements IResultProxy<T> {
     this._raw_json = json_payload;
 
     if (this.raw.data) {
-      this._model = Model.fromJsonapi(this.raw.data, this.raw);
+      this._model = this._modelClass.fromJsonapi(this.raw.data, this.raw);
     } else {
       this._model = null
     }
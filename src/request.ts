@@ -1,6 +1,7 @@
-import Config from './configuration';
 import Model from './model';
+import ApiContext from './api-context';
 import colorize from './util/colorize';
+import RetryPolicy from './util/retry-policy';
 import patchExtends from './custom-extend';
 patchExtends()
 
@@ -11,28 +12,131 @@ class RequestError extends Error {
 
   constructor(message: string, url: string, options: RequestInit, originalError: Error) {
     super(message)
+    // Compiled to ES5, extending Error loses the subclass prototype
+    Object['setPrototypeOf'](this, new.target.prototype)
     this.url = url
     this.options = options
     this.originalError = originalError
   }
 }
 
+// The caller's AbortSignal fired before a response arrived
+class RequestAbortedError extends RequestError {
+  constructor(url: string, options: RequestInit) {
+    super('Request aborted', url, options, null)
+  }
+}
+
+// No response arrived within the configured timeout
+class RequestTimeoutError extends RequestError {
+  timeout: number
+
+  constructor(url: string, options: RequestInit, timeout: number) {
+    super(`Request timed out after ${timeout}ms`, url, options, null)
+    this.timeout = timeout
+  }
+}
+
+interface responseErrorDetails {
+  url?: string
+  method?: string
+  json?: japiDoc
+  originalError?: Error
+}
+
+// A request that did not produce a usable response. Subclasses describe
+// why; switch on them with instanceof rather than on the message.
 class ResponseError extends Error {
   response: Response
+  errors: Array<japiError>
+  url: string
+  method: string
   originalError: Error
 
-  constructor(response: Response | null, message?: string, originalError?: Error) {
+  constructor(response: Response | null, message?: string, details: responseErrorDetails = {}) {
     super(message || 'Invalid Response')
+    Object['setPrototypeOf'](this, new.target.prototype)
     this.response = response
-    this.originalError = originalError
+    this.url = details.url
+    this.method = details.method
+    this.originalError = details.originalError
+    this.errors = (details.json && details.json.errors) || []
   }
 }
 
+// fetch() itself failed, so there is no response
+class NetworkError extends ResponseError {
+  constructor(message: string, details: responseErrorDetails = {}) {
+    super(null, message, details)
+  }
+}
+
+// The response body was not a JSON:API document
+class InvalidJSONError extends ResponseError {
+  constructor(response: Response, details: responseErrorDetails = {}) {
+    super(response, 'invalid json', details)
+  }
+}
+
+class UnauthorizedError extends ResponseError {
+  constructor(response: Response, details: responseErrorDetails = {}) {
+    super(response, 'Unauthorized', details)
+  }
+}
+
+class ForbiddenError extends ResponseError {
+  constructor(response: Response, details: responseErrorDetails = {}) {
+    super(response, 'Forbidden', details)
+  }
+}
+
+class NotFoundError extends ResponseError {
+  constructor(response: Response, details: responseErrorDetails = {}) {
+    super(response, 'Not Found', details)
+  }
+}
+
+class ConflictError extends ResponseError {
+  constructor(response: Response, details: responseErrorDetails = {}) {
+    super(response, 'Conflict', details)
+  }
+}
+
+// Any 5xx status
+class ServerError extends ResponseError {
+  constructor(response: Response, details: responseErrorDetails = {}) {
+    super(response, 'Server Error', details)
+  }
+}
+
+const STATUS_ERRORS = {
+  401: UnauthorizedError,
+  403: ForbiddenError,
+  404: NotFoundError,
+  409: ConflictError
+}
+
+export {
+  RequestError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  ResponseError,
+  NetworkError,
+  InvalidJSONError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+  ServerError
+};
+
 export default class Request {
   modelClass: typeof Model
+  requestOptions: requestOptions
 
-  constructor(modelClass: typeof Model) {
+  constructor(modelClass: typeof Model, requestOptions: requestOptions = {}) {
     this.modelClass = modelClass
+    this.requestOptions = requestOptions
   }
 
   get(url : string, options: RequestInit) : Promise<any> {
@@ -54,6 +158,13 @@ export default class Request {
     return this._fetchWithLogging(url, options);
   }
 
+  patch(url: string, payload: Object, options: RequestInit) : Promise<any> {
+    options.method = 'PATCH';
+    options.body   = JSON.stringify(payload);
+
+    return this._fetchWithLogging(url, options);
+  }
+
   delete(url: string, options: RequestInit) : Promise<any> {
     options.method = 'DELETE';
     return this._fetchWithLogging(url, options);
@@ -61,65 +172,185 @@ export default class Request {
 
   // private
 
+  private _context() : ApiContext {
+    return this.modelClass.getApiContext()
+  }
+
   private _logRequest(verb: string, url: string) : void {
-    Config.logger.info(colorize('cyan', `${verb}: `) + colorize('magenta', url));
+    this._context().logger.info(colorize('cyan', `${verb}: `) + colorize('magenta', url));
   }
 
   private _logResponse(responseJSON : string) : void {
-    Config.logger.debug(colorize('bold', JSON.stringify(responseJSON, null, 4)));
+    this._context().logger.debug(colorize('bold', JSON.stringify(responseJSON, null, 4)));
   }
 
   private _fetchWithLogging(url: string, options: RequestInit) : Promise<any> {
     this._logRequest(options.method, url);
-    let promise = this._fetch(url, options);
+    let promise = this._fetchWithRetries(url, options, 1);
     return promise.then((response : any) => {
       this._logResponse(response['jsonPayload']);
       return response
     });
   }
 
-  private _fetch(url: string, options: RequestInit) : Promise<any> {
-    return new Promise((resolve, reject) => {
+  private _retryPolicy() : RetryPolicy {
+    return new RetryPolicy(this._context().retry, this.modelClass.retry, this.requestOptions.retry)
+  }
+
+  private _fetchWithRetries(url: string, options: RequestInit, attempt: number) : Promise<any> {
+    return this._fetch(url, options, attempt).catch((e) => {
+      let policy = this._retryPolicy()
+
+      if (!policy.allowsRetry(options.method, attempt) || !this._isRetryable(e, policy)) {
+        throw(e)
+      }
+
+      let delay = policy.delayFor(attempt, e.response)
+      this._context().logger.warn(colorize('cyan', `Retrying ${options.method} ${url} `) +
+        `(attempt ${attempt + 1} of ${policy.maxAttempts}) in ${delay}ms: ${e.message}`)
+
+      return new Promise((resolve) => { setTimeout(resolve, delay) }).then(() => {
+        let signal = this.requestOptions.signal
+        if (signal && signal.aborted) {
+          throw(new RequestAbortedError(url, options))
+        }
+        return this._fetchWithRetries(url, options, attempt + 1)
+      })
+    })
+  }
+
+  // Network failures, or a response with a retryable status. Aborts,
+  // timeouts and middleware failures are final.
+  private _isRetryable(e: any, policy: RetryPolicy) : boolean {
+    if (e instanceof NetworkError) return true
+    if (!(e instanceof ResponseError) || !e.response) return false
+    return policy.isRetryableStatus(e.response.status)
+  }
+
+  private _fetch(url: string, options: RequestInit, attempt: number = 1) : Promise<any> {
+    return new Promise((_resolve, _reject) => {
+      let stopWatching = this._watchForAbort(url, options, _reject)
+      let resolve = (value) => { stopWatching(); _resolve(value) }
+      let reject = (error) => { stopWatching(); _reject(error) }
+
       try {
-        this.modelClass.beforeFetch(url, options)
+        this.modelClass.beforeFetch(url, options, attempt)
       } catch(e) {
         reject(new RequestError('beforeFetch failed; review Config.beforeFetch', url, options, e))
       }
 
-      let fetchPromise = fetch(url, options);
-      fetchPromise.then((response) => {
-        this._handleResponse(response, resolve, reject)
-      });
-
-      fetchPromise.catch((e) => {
+      let fetchImplementation = this.modelClass.getFetch()
+      fetchImplementation(url, options).then((response) => {
+        this._handleResponse(url, options, response, resolve, reject)
+      }, (e) => {
         // Fetch itself failed (usually network error)
-        reject(new ResponseError(null, e.message, e))
+        reject(new NetworkError(e.message, { url, method: options.method, originalError: e }))
       })
     });
   }
 
-  private _handleResponse(response: Response, resolve: Function, reject: Function) : void {
+  private _timeout() : number {
+    if (this.requestOptions.timeout !== undefined) {
+      return this.requestOptions.timeout
+    } else if (this.modelClass.timeout !== undefined) {
+      return this.modelClass.timeout
+    } else {
+      return this._context().timeout
+    }
+  }
+
+  // Rejects once the caller's signal fires or the timeout elapses,
+  // aborting the underlying fetch where AbortController is supported.
+  // Returns a function to stop watching once the request settles.
+  private _watchForAbort(url: string, options: RequestInit, reject: Function) : Function {
+    let signal = this.requestOptions.signal
+    let timeout = this._timeout()
+    let controller
+
+    if (!signal && !timeout) return () => {}
+
+    let AbortControllerClass = (typeof window === 'undefined' ? global : window)['AbortController']
+
+    if (AbortControllerClass) {
+      controller = new AbortControllerClass()
+      options['signal'] = controller.signal
+    } else if (signal) {
+      options['signal'] = signal
+    }
+
+    let abortWith = (error: Error) => {
+      if (controller) controller.abort()
+      reject(error)
+    }
+
+    let onAbort = () => {
+      abortWith(new RequestAbortedError(url, options))
+    }
+
+    if (signal) {
+      if (signal.aborted) {
+        onAbort()
+      } else {
+        signal.addEventListener('abort', onAbort)
+      }
+    }
+
+    let timer
+    if (timeout) {
+      timer = setTimeout(() => {
+        abortWith(new RequestTimeoutError(url, options, timeout))
+      }, timeout)
+    }
+
+    return () => {
+      clearTimeout(timer)
+      if (signal) signal.removeEventListener('abort', onAbort)
+    }
+  }
+
+  private _handleResponse(url: string, options: RequestInit, response: Response, resolve: Function, reject: Function) : void {
+    let details: responseErrorDetails = { url, method: options.method }
+
+    // Not Modified: no body, the caller revalidated a cached response
+    if (response.status === 304) {
+      resolve(response)
+      return
+    }
+
     response.json().then((json) => {
+      details.json = json
+
       try {
         this.modelClass.afterFetch(response, json)
       } catch(e) {
         // afterFetch middleware failed
-        reject(new ResponseError(response, 'afterFetch failed; review Config.afterFetch', e))
+        details.originalError = e
+        reject(new ResponseError(response, 'afterFetch failed; review Config.afterFetch', details))
       }
 
-      if (response.status >= 500) {
-        reject(new ResponseError(response, 'Server Error'))
-      } else if (response.status !== 422 && json['data'] === undefined) {
+      let error = this._statusError(response, details)
+      if (error) {
+        reject(error)
+      } else if (response.status !== 422 && json['data'] === undefined && json['atomic:results'] === undefined) {
         // Bad JSON, for instance an errors payload
         // Allow 422 since we specially handle validation errors
-        reject(new ResponseError(response, 'invalid json'))
+        reject(new InvalidJSONError(response, details))
       }
 
       response['jsonPayload'] = json;
       resolve(response);
     }).catch((e) => {
       // The response was probably not in JSON format
-      reject(new ResponseError(response, 'invalid json', e))
+      details.originalError = e
+      reject(this._statusError(response, details) || new InvalidJSONError(response, details))
     });
   }
+
+  private _statusError(response: Response, details: responseErrorDetails) : ResponseError | void {
+    if (response.status >= 500) {
+      return new ServerError(response, details)
+    } else if (STATUS_ERRORS[response.status]) {
+      return new STATUS_ERRORS[response.status](response, details)
+    }
+  }
 }
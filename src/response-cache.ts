@@ -0,0 +1,148 @@
+/// <reference path="../types/index.d.ts" />
+
+import Logger from './logger';
+import * as _cloneDeep from './util/clonedeep';
+let cloneDeep: any = (<any>_cloneDeep).default || _cloneDeep;
+if (cloneDeep.default) {
+  cloneDeep = cloneDeep.default;
+}
+
+// Keeps responses in memory, so they are lost on reload
+class MemoryCacheStore implements responseCacheStore {
+  private _entries: Object = {};
+
+  get(key: string) : responseCacheEntry | void {
+    return this._entries[key];
+  }
+
+  set(key: string, entry: responseCacheEntry) : void {
+    this._entries[key] = entry;
+  }
+
+  delete(key: string) : void {
+    delete this._entries[key];
+  }
+
+  keys() : Array<string> {
+    return Object.keys(this._entries);
+  }
+}
+
+// Caches GET responses for scopes that opt in with cache(), keyed by
+// the full url including query params:
+//
+// Config.setup({ responseCache: true });
+// Country.cache({ ttl: 60000, staleWhileRevalidate: 300000 }).all();
+//
+// Fresh responses (younger than ttl) are served without a request.
+// Within the staleWhileRevalidate window after that, the stale response
+// is served while a request refreshes it in the background. Otherwise
+// the request is sent, with If-None-Match when the cached response had
+// an ETag. A successful save or destroy drops the cached responses for
+// its jsonapiType.
+export default class ResponseCache {
+  store: responseCacheStore;
+  // milliseconds, used by scopes that don't pass their own ttl
+  ttl: number;
+  logger: Logger;
+
+  private _pending: Object = {};
+  // Bumped on invalidation, so responses already in flight don't
+  // repopulate the cache with data from before the write
+  private _generation: number = 0;
+
+  constructor(options: { store?: responseCacheStore, ttl?: number } = {}) {
+    this.store = options.store || new MemoryCacheStore();
+    this.ttl = options.ttl === undefined ? 60000 : options.ttl;
+  }
+
+  // send makes the request, given the ETag to revalidate, and resolves
+  // to the response
+  read(url: string, type: string, options: cacheOptions, send: (etag?: string) => Promise<any>) : Promise<japiDoc> {
+    let ttl = options.ttl === undefined ? this.ttl : options.ttl;
+    let staleWhileRevalidate = options.staleWhileRevalidate || 0;
+    let entry = this.store.get(url);
+
+    if (entry) {
+      let age = Date.now() - entry.storedAt;
+
+      if (age < ttl) {
+        return Promise.resolve(cloneDeep(entry.json));
+      } else if (age < ttl + staleWhileRevalidate) {
+        this._revalidate(url, type, entry, send).catch((e) => {
+          if (this.logger) this.logger.warn(`Could not revalidate ${url}: ${e.message || e}`);
+        });
+        return Promise.resolve(cloneDeep(entry.json));
+      }
+    }
+
+    return this._revalidate(url, type, entry || null, send).then((json) => {
+      return cloneDeep(json);
+    });
+  }
+
+  // Drops cached responses for the given jsonapiTypes
+  invalidate(types: string | Array<string>) : void {
+    types = [].concat(types);
+    this._generation++;
+
+    this.store.keys().forEach((key) => {
+      let entry = this.store.get(key);
+
+      if (entry && types.indexOf(entry.type) !== -1) {
+        this.store.delete(key);
+      }
+    });
+  }
+
+  clear() : void {
+    this._generation++;
+
+    this.store.keys().forEach((key) => {
+      this.store.delete(key);
+    });
+  }
+
+  // private
+
+  private _revalidate(url: string, type: string, entry: responseCacheEntry | null, send: Function) : Promise<japiDoc> {
+    if (this._pending[url]) return this._pending[url];
+
+    let generation = this._generation;
+    let done = () => { delete this._pending[url]; };
+
+    // a 304 is only useful with an entry to reuse; otherwise ask again
+    // for the full response
+    let fetch = () => {
+      return send(entry && entry.etag).then((response) => {
+        return response.status === 304 && !entry ? send() : response;
+      });
+    };
+
+    let promise = fetch().then((response) => {
+      let notModified = response.status === 304 && entry;
+      let json = notModified ? entry.json : response['jsonPayload'];
+      let etag = response.headers && response.headers.get('ETag');
+
+      if (generation === this._generation) {
+        this.store.set(url, {
+          type,
+          json,
+          etag: etag || (notModified ? entry.etag : undefined),
+          storedAt: Date.now()
+        });
+      }
+
+      done();
+      return json;
+    }, (e) => {
+      done();
+      throw(e);
+    });
+
+    this._pending[url] = promise;
+    return promise;
+  }
+}
+
+export { MemoryCacheStore };
@@ -4,6 +4,7 @@ import parameterize from './util/parameterize';
 import IncludeDirective from './util/include-directive';
 import { CollectionProxy, RecordProxy } from './proxies';
 import Request from './request';
+import { BatchIterator, RecordIterator } from './batch-iterator';
 import colorize from './util/colorize';
 import refreshJWT from './util/refresh-jwt';
 import * as _cloneDeep from './util/clonedeep';
@@ -20,32 +21,66 @@ export default class Scope {
   _extra_fields: Object = {};
   _include: Object = {};
   _stats: Object = {};
+  _url: string;
+  _cache: cacheOptions | null = null;
 
   constructor(model : typeof Model) {
     this.model = model;
   }
 
-  all() : Promise<CollectionProxy<Model>> {
-    return this._fetch(this.model.url()).then((json : japiDoc) => {
-      let collection = new CollectionProxy<Model>(json);
+  all(options?: requestOptions) : Promise<CollectionProxy<Model>> {
+    return this._fetch(this.collectionUrl(), options).then((json : japiDoc) => {
+      let collection = new CollectionProxy<Model>(json, this.model);
       return collection;
     })
   }
 
-  find(id : string | number) : Promise<RecordProxy<Model>> {
-    return this._fetch(this.model.url(id)).then((json : japiDoc) => {
-      return new RecordProxy<Model>(json);
+  find(id : string | number, options?: requestOptions) : Promise<RecordProxy<Model>> {
+    return this._fetch(this.model.url(id), options).then((json : japiDoc) => {
+      return new RecordProxy<Model>(json, this.model);
     });
   }
 
-  first() : Promise<RecordProxy<Model>> {
+  first(options?: requestOptions) : Promise<RecordProxy<Model>> {
     let newScope = this.per(1);
-    return newScope._fetch(newScope.model.url()).then((json : japiDoc) => {
-      json.data = json.data[0];
-      return new RecordProxy<Model>(json);
+    return newScope._fetch(newScope.collectionUrl(), options).then((json : japiDoc) => {
+      // a to-one related link responds with a single resource
+      if (Array.isArray(json.data)) {
+        json.data = json.data[0];
+      }
+      return new RecordProxy<Model>(json, this.model);
+    });
+  }
+
+  // Requests no records, only the total count stat
+  count(options?: requestOptions) : Promise<number> {
+    let newScope = this.per(0).stats({ total: 'count' });
+    return newScope._fetch(newScope.collectionUrl(), options).then((json : japiDoc) => {
+      let collection = new CollectionProxy<Model>(json, this.model);
+      let total = collection.stats['total'] || {};
+
+      if (typeof total.count !== 'number') {
+        throw new Error('Scope#count expected the response to include stats.total.count');
+      }
+
+      return total.count;
     });
   }
 
+  // Iterate over every record across all pages:
+  //
+  // for await (let post of Post.where({ active: true }).per(50).each()) {
+  //   ...
+  // }
+  each(options?: requestOptions) : RecordIterator {
+    return new RecordIterator(this, options);
+  }
+
+  // Like each(), but yields a CollectionProxy per page
+  findInBatches(options?: requestOptions) : BatchIterator {
+    return new BatchIterator(this, options);
+  }
+
   merge(obj : Object) : Scope {
     let copy = this.copy();
 
@@ -56,6 +91,23 @@ export default class Scope {
     return copy;
   }
 
+  // Fetch from another url, e.g. a related link, instead of the
+  // model's own. find() still uses the model's url.
+  fromUrl(url: string) : Scope {
+    let copy = this.copy();
+
+    copy._url = url;
+    return copy;
+  }
+
+  // Serve reads from the context's responseCache; see ResponseCache
+  cache(options: cacheOptions = {}) : Scope {
+    let copy = this.copy();
+
+    copy._cache = options;
+    return copy;
+  }
+
   page(pageNumber : number) : Scope {
     let copy = this.copy();
 
@@ -166,14 +218,60 @@ export default class Scope {
     }
   }
 
+  collectionUrl() : string {
+    return this._url || this.model.url();
+  }
+
   copy() : Scope {
     let newScope = cloneDeep(this);
 
     return newScope;
   }
 
+  _fetch(url : string, options: requestOptions = {}) : Promise<Object> {
+    let qp = this.toQueryParams()
+    if (qp) {
+      let separator = url.indexOf('?') === -1 ? '?' : '&'
+      url = `${url}${separator}${qp}`
+    }
+    return this._fetchUrl(url, options)
+  }
+
+  // Fetch a url that already carries its query params, e.g. a
+  // links.next url from the server
+  _fetchUrl(url : string, options: requestOptions = {}) : Promise<Object> {
+    if (!this._cache) {
+      return this._get(url, options).then((response) => {
+        return response['jsonPayload']
+      })
+    }
+
+    let cache = this.model.getApiContext().responseCache
+    if (!cache) {
+      return Promise.reject(new Error('Scope#cache requires a responseCache; pass responseCache: true to Config.setup'))
+    }
+
+    return cache.read(url, this.model.jsonapiType, this._cache, (etag) => {
+      return this._get(url, options, etag)
+    })
+  }
+
   // private
 
+  private _get(url: string, options: requestOptions, etag?: string) : Promise<any> {
+    let request = new Request(this.model, options)
+    let fetchOpts = this.model.fetchOptions()
+
+    if (etag) {
+      fetchOpts.headers['If-None-Match'] = etag
+    }
+
+    return request.get(url, fetchOpts).then((response) => {
+      refreshJWT(this.model, response)
+      return response
+    })
+  }
+
   private _mergeAssociationQueryParams(queryParams, associations) {
     for (let key in associations) {
       let associationScope = associations[key];
@@ -213,18 +311,4 @@ export default class Scope {
       return params;
     }
   }
-
-  private _fetch(url : string) : Promise<Object> {
-    let qp = this.toQueryParams()
-    if (qp) {
-      url = `${url}?${qp}`
-    }
-    let request = new Request(this.model)
-    let fetchOpts = this.model.fetchOptions()
-    let promise = request.get(url, fetchOpts)
-    return promise.then((response) => {
-      refreshJWT(this.model, response)
-      return response['jsonPayload']
-    })
-  }
 }
@@ -0,0 +1,266 @@
+/// <reference path="../../types/index.d.ts" />
+
+import Model from '../model';
+import WritePayload from './write-payload';
+import ValidationErrors from './validation-errors';
+import tempId from './temp-id';
+
+const ATOMIC_MEDIA_TYPE = 'application/vnd.api+json; ext="https://jsonapi.org/ext/atomic"';
+
+// Writes records as a JSON:API Atomic Operations document
+// (https://jsonapi.org/ext/atomic/), instead of sideposting nested
+// records with method/temp-id:
+//
+// { "atomic:operations": [
+//   { "op": "add", "data": { "type": "books", "lid": "temp-id-1", ... } },
+//   { "op": "update", "data": { "type": "authors", "id": "1", "relationships": { ... } } },
+//   { "op": "remove", "ref": { "type": "tags", "id": "2" } }
+// ] }
+//
+// Nested records are written before the records that refer to them,
+// by lid when they're new. atomic:results are matched back to the
+// record each operation wrote.
+export default class AtomicOperations {
+  operations: Array<atomicOperation> = [];
+  // the record each operation writes, by index
+  records: Array<Model> = [];
+  payloads: Array<WritePayload> = [];
+  // records passed to add(), and what we asked the server to do
+  roots: Array<{ model: Model, method: string }> = [];
+
+  // type:id or type:lid of the resources written so far, so records
+  // reached from several parents are written once
+  private _written: Array<string> = [];
+
+  static fetchOptions(modelClass: typeof Model) : RequestInit {
+    let options = modelClass.fetchOptions();
+    options.headers['Accept'] = ATOMIC_MEDIA_TYPE;
+    options.headers['Content-Type'] = ATOMIC_MEDIA_TYPE;
+    return options;
+  }
+
+  // The jsonapiTypes written, e.g. to invalidate cached responses
+  get types() : Array<string> {
+    let types = [];
+
+    this.records.forEach((record) => {
+      if (record && types.indexOf(record.klass.jsonapiType) === -1) {
+        types.push(record.klass.jsonapiType);
+      }
+    });
+
+    return types;
+  }
+
+  // Saves the model and the relationships in nested (like save({ with })),
+  // or destroys it when marked for destruction
+  add(model: Model, nested?: string | Array<any> | Object) : void {
+    if (model.isMarkedForDestruction()) {
+      this.roots.push({ model, method: 'destroy' });
+      this._push({ op: 'remove', ref: this._refFor(model) }, model);
+      return;
+    }
+
+    let method = model.isPersisted() ? 'update' : 'create';
+    this.roots.push({ model, method });
+
+    // lets other operations refer to the new record
+    if (method === 'create' && !model.temp_id) {
+      model.temp_id = tempId.generate();
+    }
+
+    let payload = new WritePayload(model, nested);
+    let json = payload.asJSON();
+    let models = [model].concat(payload.processed.map((p) => { return p.model; }));
+
+    this.payloads.push(payload);
+    this._pushResource(json['data'], method, json['included'] || [], models);
+  }
+
+  asJSON() : Object {
+    return { 'atomic:operations': this.operations };
+  }
+
+  // Applies atomic:results to the records, in operation order
+  applyResults(json: japiDoc) : void {
+    let results = (json && json['atomic:results']) || [];
+
+    results.forEach((result, index) => {
+      let record = this.records[index];
+      let resource = result && result.data;
+
+      if (record && resource && !Array.isArray(resource)) {
+        record.fromJsonapi(this._withoutLinkage(resource), { data: resource });
+      }
+    });
+
+    this.roots.forEach((root) => {
+      if (root.method === 'destroy') {
+        root.model.isPersisted(false);
+
+        let identityMap = root.model.klass.getApiContext().identityMap;
+        if (identityMap) {
+          identityMap.remove(root.model);
+        }
+      }
+    });
+
+    this.payloads.forEach((payload) => { payload.postProcess(); });
+  }
+
+  // Assigns the errors of a 422 response to the record of the
+  // operation each points at, e.g. /atomic:operations/1/data/attributes/title
+  applyErrors(json: japiDoc) : void {
+    let byRecord: Array<{ model: Model, errors: Array<japiError> }> = [];
+    let errorsFor = (model: Model) => {
+      let entry = byRecord.filter((e) => { return e.model === model; })[0];
+
+      if (!entry) {
+        entry = { model, errors: [] };
+        byRecord.push(entry);
+      }
+
+      return entry.errors;
+    };
+
+    this.roots.forEach((root) => { errorsFor(root.model); });
+
+    (json.errors || []).forEach((err) => {
+      let pointer = err.source && err.source.pointer;
+      let match = pointer && pointer.match(/^\/atomic:operations\/(\d+)(.*)$/);
+      let record = match && this.records[parseInt(match[1], 10)];
+
+      if (record) {
+        let source = Object.assign({}, err.source, { pointer: match[2] });
+        errorsFor(record).push(Object.assign({}, err, { source }));
+      } else {
+        errorsFor(this.roots[0].model).push(err);
+      }
+    });
+
+    byRecord.forEach((entry) => {
+      ValidationErrors.apply(entry.model, { data: null, errors: entry.errors });
+    });
+  }
+
+  // Runs after callbacks for nested records. Callers run them for the
+  // records they added.
+  runAfterCallbacks() : void {
+    this.payloads.forEach((payload) => { payload.runAfterCallbacks(); });
+  }
+
+  // private
+
+  private _push(operation: atomicOperation, record: Model) : void {
+    this.operations.push(operation);
+    this.records.push(record);
+  }
+
+  // Pushes operations for the nested records the resource refers to,
+  // then for the resource itself, then removals it asked for
+  private _pushResource(resource: Object, method: string, included: Array<Object>, models: Array<Model>) : void {
+    let ref = this._identifier(resource, method);
+    let key = `${ref['type']}:${ref['id'] || ref['lid']}`;
+    if (this._written.indexOf(key) > -1) return;
+    this._written.push(key);
+
+    let data = Object.assign({}, ref);
+    let relationships = {};
+    let after: Array<{ operation: atomicOperation, model: Model }> = [];
+
+    if (resource['attributes']) {
+      data['attributes'] = resource['attributes'];
+    }
+
+    Object.keys(resource['relationships'] || {}).forEach((name) => {
+      let linkage = resource['relationships'][name].data;
+      let toMany = Array.isArray(linkage);
+      let kept = [];
+
+      [].concat(linkage || []).forEach((identifier) => {
+        let relatedMethod = identifier['method'];
+        let relatedRef = this._identifier(identifier, relatedMethod);
+        let relatedModel = this._find(models, identifier);
+
+        if (relatedMethod === 'destroy') {
+          after.push({ operation: { op: 'remove', ref: relatedRef }, model: relatedModel });
+        } else if (relatedMethod === 'disassociate') {
+          let relationshipRef = Object.assign({ relationship: name }, ref);
+
+          if (toMany) {
+            after.push({ operation: { op: 'remove', ref: relationshipRef, data: [relatedRef] }, model: relatedModel });
+          } else {
+            after.push({ operation: { op: 'update', ref: relationshipRef, data: null }, model: relatedModel });
+          }
+        } else {
+          let relatedResource = this._find(included, identifier);
+          if (relatedResource) {
+            this._pushResource(relatedResource, relatedMethod, included, models);
+          }
+          kept.push(relatedRef);
+        }
+      });
+
+      if (kept.length === 0) return;
+
+      if (toMany && method === 'update') {
+        // updating to-many linkage would replace it, so add members instead
+        let relationshipRef = Object.assign({ relationship: name }, ref);
+        after.unshift({ operation: { op: 'add', ref: relationshipRef, data: kept }, model: null });
+      } else {
+        relationships[name] = { data: toMany ? kept : kept[0] };
+      }
+    });
+
+    if (Object.keys(relationships).length > 0) {
+      data['relationships'] = relationships;
+    }
+
+    this._push({ op: method === 'create' ? 'add' : 'update', data }, this._find(models, resource));
+    after.forEach((a) => { this._push(a.operation, a.model); });
+  }
+
+  private _identifier(resource: Object, method: string) : Object {
+    let identifier = { type: resource['type'] };
+
+    if (method === 'create') {
+      identifier['lid'] = resource['temp-id'];
+    } else {
+      identifier['id'] = resource['id'];
+    }
+
+    return identifier;
+  }
+
+  private _refFor(model: Model) : Object {
+    return { type: model.klass.jsonapiType, id: model.id };
+  }
+
+  // Finds the record or resource with the identifier's id or temp-id
+  private _find(candidates: Array<any>, identifier: Object) : any {
+    return candidates.filter((c) => {
+      let isModel = c instanceof Model;
+      let type = isModel ? c.klass.jsonapiType : c.type;
+      let lid = isModel ? c.temp_id : c['temp-id'];
+
+      return type === identifier['type'] &&
+        (c.id && c.id === identifier['id'] || lid && lid === identifier['temp-id']);
+    })[0];
+  }
+
+  // Results may echo relationship linkage; keep only the links, since
+  // related records were written by their own operations
+  private _withoutLinkage(resource: japiResource) : japiResource {
+    let relationships = {};
+
+    Object.keys(resource.relationships || {}).forEach((key) => {
+      if (resource.relationships[key].links) {
+        relationships[key] = { links: resource.relationships[key].links };
+      }
+    });
+
+    return Object.assign({}, resource, { relationships });
+  }
+}
+
+export { ATOMIC_MEDIA_TYPE };
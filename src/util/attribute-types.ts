@@ -0,0 +1,79 @@
+/// <reference path="../../types/index.d.ts" />
+
+// Built-in attribute types, selected with attr({ type: 'date' }).
+// null and undefined always pass through untouched.
+
+const isBlank = function(value: any) : boolean {
+  return value === null || value === undefined;
+}
+
+const pad = function(num: number) : string {
+  return num < 10 ? `0${num}` : `${num}`;
+}
+
+// 'YYYY-MM-DD' as a local date; new Date('YYYY-MM-DD') would be UTC
+const date : attributeType = {
+  deserialize(value: any) : Date {
+    if (isBlank(value) || value instanceof Date) return value;
+
+    let parts = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (parts) {
+      return new Date(Number(parts[1]), Number(parts[2]) - 1, Number(parts[3]));
+    } else {
+      return new Date(value);
+    }
+  },
+
+  serialize(value: any) : string {
+    if (!(value instanceof Date)) return value;
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+}
+
+const datetime : attributeType = {
+  deserialize(value: any) : Date {
+    if (isBlank(value) || value instanceof Date) return value;
+    return new Date(value);
+  },
+
+  serialize(value: any) : string {
+    if (!(value instanceof Date)) return value;
+    return value.toISOString();
+  }
+}
+
+const number : attributeType = {
+  deserialize(value: any) : number {
+    if (isBlank(value)) return value;
+    if (value === '') return null;
+    return Number(value);
+  }
+}
+
+const integer : attributeType = {
+  deserialize(value: any) : number {
+    if (isBlank(value)) return value;
+    if (value === '') return null;
+    return parseInt(value, 10);
+  }
+}
+
+const boolean : attributeType = {
+  deserialize(value: any) : boolean {
+    if (isBlank(value)) return value;
+    if (typeof value === 'string') {
+      return ['true', 't', '1', 'yes'].indexOf(value.toLowerCase()) !== -1;
+    }
+    return !!value;
+  }
+}
+
+// Accepts either embedded JSON or a JSON-encoded string
+const json : attributeType = {
+  deserialize(value: any) : any {
+    if (typeof value === 'string') return JSON.parse(value);
+    return value;
+  }
+}
+
+export default { date, datetime, number, integer, boolean, json };
@@ -0,0 +1,124 @@
+/// <reference path="../../types/index.d.ts" />
+
+import Model from '../model';
+import WritePayload from './write-payload';
+import ValidationErrors from './validation-errors';
+
+// Writes records as one sideposting document with an array of primary
+// resources, each marked with the method to apply:
+//
+// { "data": [
+//   { "type": "line_items", "temp-id": "temp-id-1", "method": "create", "attributes": { ... } },
+//   { "type": "products", "id": "5", "method": "update", "attributes": { ... } },
+//   { "type": "products", "id": "6", "method": "destroy" }
+// ], "included": [ ... ] }
+//
+// The server responds with the resulting resources in the same order,
+// and points errors at them, e.g. /data/1/attributes/price.
+export default class BulkWrites {
+  resources: Array<Object> = [];
+  included: Array<Object> = [];
+  // the record each resource writes, by index
+  records: Array<Model> = [];
+  payloads: Array<WritePayload | null> = [];
+  roots: Array<{ model: Model, method: string }> = [];
+
+  get types() : Array<string> {
+    let types = [];
+
+    this.records.forEach((record) => {
+      if (types.indexOf(record.klass.jsonapiType) === -1) {
+        types.push(record.klass.jsonapiType);
+      }
+    });
+
+    this.payloads.forEach((payload) => {
+      (payload ? payload.processed : []).forEach((p) => {
+        if (types.indexOf(p.model.klass.jsonapiType) === -1) {
+          types.push(p.model.klass.jsonapiType);
+        }
+      });
+    });
+
+    return types;
+  }
+
+  add(model: Model, nested?: string | Array<any> | Object) : void {
+    this.records.push(model);
+
+    if (model.isMarkedForDestruction()) {
+      this.roots.push({ model, method: 'destroy' });
+      this.payloads.push(null);
+      this.resources.push({ type: model.klass.jsonapiType, id: model.id, method: 'destroy' });
+      return;
+    }
+
+    let method = model.isPersisted() ? 'update' : 'create';
+    let payload = new WritePayload(model, nested);
+    let json = payload.asJSON();
+
+    this.roots.push({ model, method });
+    this.payloads.push(payload);
+    this.resources.push(Object.assign({}, json['data'], { method }));
+    (json['included'] || []).forEach((resource) => { this.included.push(resource); });
+  }
+
+  asJSON() : Object {
+    let json = { data: this.resources };
+
+    if (this.included.length > 0) {
+      json['included'] = this.included;
+    }
+
+    return json;
+  }
+
+  applyResults(json: japiDoc) : void {
+    let results = [].concat((json && json.data) || []);
+
+    this.roots.forEach((root, index) => {
+      let payload = this.payloads[index];
+
+      if (root.method === 'destroy') {
+        root.model.isPersisted(false);
+
+        let identityMap = root.model.klass.getApiContext().identityMap;
+        if (identityMap) {
+          identityMap.remove(root.model);
+        }
+      } else if (results[index]) {
+        root.model.fromJsonapi(results[index], json, payload.includeDirective);
+        payload.postProcess();
+      }
+    });
+  }
+
+  // Assigns the errors of a 422 response to the record each points
+  // at. Errors without a /data/<index> pointer go to the first record.
+  applyErrors(json: japiDoc) : void {
+    let byIndex = this.records.map(() => { return []; });
+
+    (json.errors || []).forEach((err) => {
+      let pointer = err.source && err.source.pointer;
+      let match = pointer && pointer.match(/^\/data\/(\d+)(.*)$/);
+      let index = match ? parseInt(match[1], 10) : 0;
+
+      if (match && byIndex[index]) {
+        let source = Object.assign({}, err.source, { pointer: `/data${match[2]}` });
+        byIndex[index].push(Object.assign({}, err, { source }));
+      } else {
+        byIndex[0].push(err);
+      }
+    });
+
+    this.records.forEach((record, index) => {
+      ValidationErrors.apply(record, { data: null, errors: byIndex[index] });
+    });
+  }
+
+  runAfterCallbacks() : void {
+    this.payloads.forEach((payload) => {
+      if (payload) payload.runAfterCallbacks();
+    });
+  }
+}
@@ -0,0 +1,104 @@
+import Model from '../model';
+
+const CALLBACK_NAMES = [
+  'beforeValidate',
+  'beforeSave',
+  'afterSave',
+  'beforeCreate',
+  'afterCreate',
+  'beforeUpdate',
+  'afterUpdate',
+  'beforeDestroy',
+  'afterDestroy',
+  'afterLoad'
+];
+
+// Callbacks live here rather than on the classes themselves, since
+// static properties are copied down to subclasses when extending
+let registry: Array<{ klass: typeof Model, name: string, fn: Function }> = [];
+
+// Thrown to unwind a save when a nested record's callback returns false
+class CallbackAbort {
+  model: Model;
+  callbackName: string;
+
+  constructor(model: Model, callbackName: string) {
+    this.model = model;
+    this.callbackName = callbackName;
+  }
+}
+
+const addCallback = function(klass: typeof Model, name: string, fn: Function) : void {
+  if (CALLBACK_NAMES.indexOf(name) === -1) {
+    throw(`Unknown callback "${name}", must be one of ${CALLBACK_NAMES.join(', ')}`);
+  }
+
+  registry.push({ klass, name, fn });
+}
+
+// Parent class callbacks run first
+const callbacksFor = function(klass: typeof Model, name: string) : Array<Function> {
+  let inherited = klass.parentClass ? callbacksFor(klass.parentClass, name) : [];
+  let own = registry.filter((entry) => {
+    return entry.klass === klass && entry.name === name;
+  }).map((entry) => { return entry.fn; });
+
+  return inherited.concat(own);
+}
+
+// Returns false as soon as a callback returns false. Exceptions
+// propagate to the caller.
+const runCallbacks = function(model: Model, name: string) : boolean {
+  let callbacks = callbacksFor(model.klass, name);
+
+  for (let fn of callbacks) {
+    if (fn.call(model, model) === false) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Like runCallbacks, but throws CallbackAbort instead of returning false
+const runCallbacksOrAbort = function(model: Model, names: Array<string>) : void {
+  names.forEach((name) => {
+    if (!runCallbacks(model, name)) {
+      throw new CallbackAbort(model, name);
+    }
+  });
+}
+
+// Callbacks for the jsonapi_suite write methods (see WritePayload)
+const BEFORE_CALLBACKS = {
+  create: ['beforeSave', 'beforeCreate'],
+  update: ['beforeSave', 'beforeUpdate'],
+  destroy: ['beforeDestroy'],
+  disassociate: []
+}
+
+const AFTER_CALLBACKS = {
+  create: ['afterCreate', 'afterSave'],
+  update: ['afterUpdate', 'afterSave'],
+  destroy: ['afterDestroy'],
+  disassociate: []
+}
+
+const runBeforeWriteCallbacks = function(model: Model, method: string) : void {
+  runCallbacksOrAbort(model, BEFORE_CALLBACKS[method]);
+}
+
+const runAfterWriteCallbacks = function(model: Model, method: string) : void {
+  AFTER_CALLBACKS[method].forEach((name) => {
+    runCallbacks(model, name);
+  });
+}
+
+export {
+  CallbackAbort,
+  addCallback,
+  callbacksFor,
+  runCallbacks,
+  runBeforeWriteCallbacks,
+  runAfterWriteCallbacks
+};
@@ -0,0 +1,62 @@
+// Structural equality for attribute values: plain objects compare by
+// keys regardless of order, arrays element by element, and Dates by
+// time. null and undefined are equal, like a missing key.
+const deepEqual = function(a: any, b: any) : boolean {
+  if (a === b || (a == null && b == null)) return true;
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+
+  if (!isObject(a) || !isObject(b) || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((value, index) => {
+      return deepEqual(value, b[index]);
+    });
+  }
+
+  return keysOf(a, b).every((key) => {
+    return deepEqual(a[key], b[key]);
+  });
+}
+
+// The paths at which two values differ, e.g.
+//
+// changedPaths({ theme: 'light', tags: ['a'] }, { theme: 'dark', tags: ['a', 'b'] }, 'settings')
+// // => { 'settings.theme': ['light', 'dark'], 'settings.tags.1': [undefined, 'b'] }
+const changedPaths = function(prior: any, current: any, path: string, paths: Object = {}) : Object {
+  if (deepEqual(prior, current)) return paths;
+
+  let nestable = isObject(prior) && isObject(current) &&
+    Array.isArray(prior) === Array.isArray(current) &&
+    !(prior instanceof Date) && !(current instanceof Date);
+
+  if (nestable) {
+    keysOf(prior, current).forEach((key) => {
+      changedPaths(prior[key], current[key], `${path}.${key}`, paths);
+    });
+  } else {
+    paths[path] = [prior, current];
+  }
+
+  return paths;
+}
+
+function isObject(value: any) : boolean {
+  return value !== null && typeof value === 'object';
+}
+
+function keysOf(a: Object, b: Object) : Array<string> {
+  let keys = Object.keys(a);
+
+  Object.keys(b).forEach((key) => {
+    if (keys.indexOf(key) === -1) keys.push(key);
+  });
+
+  return keys;
+}
+
+export { deepEqual, changedPaths };
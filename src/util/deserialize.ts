@@ -1,26 +1,31 @@
 /// <reference path="../../types/index.d.ts" />
 
-import Config from '../configuration';
+import ApiContext from '../api-context';
 import Model from '../model';
 import { camelize } from './string';
+import { runCallbacks } from './callbacks';
 
-function deserialize(datum : japiResource, payload: japiDoc) : Model {
-  let deserializer = new Deserializer(payload);
+function deserialize(datum : japiResource, payload: japiDoc, context: ApiContext) : Model {
+  let deserializer = new Deserializer(payload, context);
   return deserializer.deserialize(datum);
 }
 
 function deserializeInstance(instance: Model, resource : japiResource, payload: japiDoc, includeDirective: Object = {}) : Model {
-  let deserializer = new Deserializer(payload);
+  let deserializer = new Deserializer(payload, instance.klass.getApiContext());
   return deserializer.deserializeInstance(instance, resource, includeDirective);
 }
 
 class Deserializer {
   _deserialized = [];
   _resources = [];
+  _mapped = [];
   payload: japiDoc;
+  // where types are looked up and identity-mapped
+  context: ApiContext;
 
-  constructor(payload) {
+  constructor(payload: japiDoc, context: ApiContext) {
     this.payload = payload;
+    this.context = context;
 
     this.addResources(payload.data);
     this.addResources(payload.included);
@@ -38,8 +43,17 @@ class Deserializer {
     }
   }
 
-  instanceFor(type: string) : Model {
-    let klass = Config.modelForType(type);
+  instanceFor(resource: japiResourceIdentifier) : Model {
+    let identityMap = this.context.identityMap;
+    if (identityMap) {
+      let mapped = identityMap.find(resource.type, resource.id);
+      if (mapped) {
+        this._mapped.push(mapped);
+        return mapped;
+      }
+    }
+
+    let klass = this.context.modelForType(resource.type).resolveClassFor(resource);
     return new klass();
   }
 
@@ -50,7 +64,7 @@ class Deserializer {
     });
 
     if (!record) {
-      record = this.instanceFor(datum.type);
+      record = this.instanceFor(datum);
     }
 
     return record;
@@ -74,7 +88,7 @@ class Deserializer {
   }
 
   deserialize(datum: japiResource) : Model {
-    let instance = this.instanceFor(datum.type);
+    let instance = this.instanceFor(datum);
     return this.deserializeInstance(instance, datum, {});
   }
 
@@ -86,8 +100,15 @@ class Deserializer {
     instance.id = datum.id;
     instance.temp_id = datum['temp-id'];
 
-    // assign attrs
-    instance.assignAttributes(datum.attributes);
+    // assign attrs, keeping unsaved changes on identity-mapped instances
+    let originals = {};
+    let relationshipTracking = {};
+    if (this._mapped.indexOf(instance) !== -1) {
+      originals = this._mergeAttributes(instance, datum.attributes);
+      relationshipTracking = this._dirtyRelationshipTracking(instance);
+    } else {
+      instance.assignAttributes(datum.attributes);
+    }
 
     // assign meta
     instance.__meta__ = datum.meta;
@@ -103,17 +124,86 @@ class Deserializer {
     // came from server, must be persisted
     instance.isPersisted(true);
 
+    // retained local changes stay dirty against the latest server values
+    Object.keys(originals).forEach((key) => {
+      instance._originalAttributes[key] = originals[key];
+    });
+    Object.keys(relationshipTracking).forEach((name) => {
+      let tracking = relationshipTracking[name];
+
+      if (tracking.identifiers) {
+        instance._originalRelationships[name] = tracking.identifiers;
+      } else {
+        delete instance._originalRelationships[name];
+      }
+      instance._originalRelatedRecords[name] = tracking.records;
+    });
+
+    if (this.context.identityMap) {
+      this.context.identityMap.add(instance);
+    }
+
+    runCallbacks(instance, 'afterLoad');
+
     return instance;
   }
 
+  // Assign only attributes without unsaved local changes. Returns what
+  // each changed attribute should be compared with: the server value
+  // when the response has one, otherwise the value from before.
+  _mergeAttributes(instance: Model, attributes: Object = {}) : Object {
+    let dirty = instance.isPersisted() ? instance.changes() : {};
+    let originals = {};
+    let clean = {};
+
+    Object.keys(dirty).forEach((key) => {
+      originals[key] = dirty[key][0];
+    });
+
+    for (let key in attributes) {
+      let attributeName = key;
+
+      if (instance.klass.camelizeKeys) {
+        attributeName = camelize(key);
+      }
+
+      let attribute = instance.klass.attributeList[attributeName];
+
+      if (dirty[attributeName]) {
+        originals[attributeName] = attribute ? attribute.deserialize(attributes[key]) : attributes[key];
+      } else {
+        clean[key] = attributes[key];
+      }
+    }
+
+    instance.assignAttributes(clean);
+    return originals;
+  }
+
+  // What relationships with unsaved changes were last loaded or saved
+  // as, so they stay dirty
+  _dirtyRelationshipTracking(instance: Model) : Object {
+    let tracking = {};
+
+    Object.keys(instance.relationshipChanges()).forEach((name) => {
+      tracking[name] = {
+        identifiers: instance._originalRelationships[name],
+        records: instance._originalRelatedRecords[name]
+      };
+    });
+
+    return tracking;
+  }
+
   _removeDeletions(model: Model, includeDirective: Object) {
     Object.keys(includeDirective).forEach((key) => {
       let relatedObjects = model[key];
       if (relatedObjects) {
         if (Array.isArray(relatedObjects)) {
-          relatedObjects.forEach((relatedObject, index) => {
+          // iterate a copy, since we splice as we go
+          relatedObjects.slice().forEach((relatedObject) => {
             if (relatedObject.isMarkedForDestruction() || relatedObject.isMarkedForDisassociation()) {
-              model[key].splice(index, 1);
+              model[key].splice(model[key].indexOf(relatedObject), 1);
             } else {
               this._removeDeletions(relatedObject, includeDirective[key] || {});
             }
@@ -146,7 +236,13 @@ class Deserializer {
       } else {
         let hydratedDatum = this.findResource(relationData);
         let existing = instance[relationName];
-        let associated = existing || this.instanceFor(hydratedDatum.type);
+
+        // a polymorphic relationship may now point at another type
+        if (existing && existing.klass.jsonapiType !== hydratedDatum.type) {
+          existing = null;
+        }
+
+        let associated = existing || this.instanceFor(hydratedDatum);
 
         associated = this.deserializeInstance(associated, hydratedDatum, nestedIncludeDirective);
 
@@ -166,6 +262,11 @@ class Deserializer {
       }
 
       if (instance.klass.attributeList[relationName]) {
+        // kept so the relationship can be loaded later, see Model#load
+        if (relationships[key].links) {
+          instance.relationshipLinks[relationName] = relationships[key].links;
+        }
+
         let relationData = relationships[key].data;
         if(!relationData) continue; // only links, empty, etc
         callback(relationName, relationData);
@@ -1,5 +1,6 @@
 import Model from '../model';
 import IncludeDirective from './include-directive';
+import { deepEqual, changedPaths } from './deep-equal';
 
 class DirtyChecker {
   model: Model;
@@ -50,7 +51,7 @@ class DirtyChecker {
 
       if (!this.model.isPersisted()) {
         dirty[key] = [null, current];
-      } else if (prior != current) {
+      } else if (this._isChanged(key, prior, current)) {
         dirty[key] = [prior, current]
       }
     }
@@ -58,6 +59,114 @@ class DirtyChecker {
     return dirty;
   }
 
+  // Like dirtyAttributes, but reports where object and array values
+  // changed, e.g. { 'settings.theme': ['light', 'dark'] }. Attributes
+  // with a custom isEqual are reported whole.
+  dirtyPaths() : Object {
+    let paths = {};
+    let dirty = this.dirtyAttributes();
+
+    Object.keys(dirty).forEach((key) => {
+      let attribute = this.model.klass.attributeList[key];
+      let [prior, current] = dirty[key];
+
+      if (!this.model.isPersisted() || (attribute && attribute.hasCustomEquality())) {
+        paths[key] = dirty[key];
+      } else {
+        if (attribute) {
+          prior = attribute.serialize(prior);
+          current = attribute.serialize(current);
+        }
+        changedPaths(prior, current, key, paths);
+      }
+    });
+
+    return paths;
+  }
+
+  // Per relationship with changes, how its members differ from when
+  // last loaded or saved. Pass relationships, like check(), to also
+  // report members that are dirty themselves.
+  dirtyRelationships(relationships: Object | Array<any> | string = {}) : { [name: string]: relationshipChange } {
+    let includeHash = new IncludeDirective(relationships).toObject();
+    let names = Object.keys(this.model.relationships);
+    let changes = {};
+
+    Object.keys(this.model._originalRelatedRecords).forEach((name) => {
+      if (names.indexOf(name) === -1) names.push(name);
+    });
+
+    names.forEach((name) => {
+      let change = this._relationshipChange(name, includeHash[name]);
+      let changed = Object.keys(change).some((key) => {
+        return change[key].length > 0;
+      });
+
+      if (changed) changes[name] = change;
+    });
+
+    return changes;
+  }
+
+  // Compare structurally by wire format, so e.g. two Date instances for
+  // the same day are equal, unless the attribute brings its own isEqual
+  private _isChanged(key: string, prior: any, current: any) : boolean {
+    let attribute = this.model.klass.attributeList[key];
+
+    if (attribute) {
+      return !attribute.isEqual(prior, current);
+    } else {
+      return !deepEqual(prior, current);
+    }
+  }
+
+  private _relationshipChange(name: string, nested?: Object) : relationshipChange {
+    let current = [].concat(this.model.relationships[name] || []);
+    let identifiers = (this.model._originalRelationships[name] || []).map((ri) => {
+      return JSON.stringify(ri);
+    });
+    let isMember = (record) => {
+      return record.isPersisted() &&
+        identifiers.indexOf(JSON.stringify(record.resourceIdentifier)) > -1;
+    };
+    let currentIdentifiers = current.filter((record) => {
+      return record.isPersisted();
+    }).map((record) => {
+      return JSON.stringify(record.resourceIdentifier);
+    });
+
+    let change = {
+      added: [],
+      removed: [].concat(this.model._originalRelatedRecords[name] || []).filter((record) => {
+        return isMember(record) &&
+          currentIdentifiers.indexOf(JSON.stringify(record.resourceIdentifier)) === -1;
+      }),
+      destroyed: [],
+      disassociated: [],
+      changed: []
+    } as relationshipChange;
+
+    current.forEach((record) => {
+      if (record.isMarkedForDestruction()) {
+        change.destroyed.push(record);
+      } else if (record.isMarkedForDisassociation()) {
+        change.disassociated.push(record);
+      } else if (!isMember(record)) {
+        change.added.push(record);
+      } else if (nested && record.isDirty(nested)) {
+        change.changed.push(record);
+      }
+    });
+
+    let association = this.model.klass.attributeList[name];
+    let isToOne = association ? !association.isToMany : !Array.isArray(this.model.relationships[name]);
+    if (isToOne && change.added.length === 1 && change.removed.length === 1) {
+      change.replaced = [change.removed.pop(), change.added.pop()];
+    }
+
+    return change;
+  }
+
   // TODO: allow attributes == {} configurable
   private _isUnpersisted() {
     return !this.model.isPersisted() && JSON.stringify(this.model.attributes) !== JSON.stringify({});
@@ -66,8 +175,11 @@ class DirtyChecker {
   private _hasDirtyAttributes() {
     let originalAttrs = this.model._originalAttributes;
     let currentAttrs = this.model.attributes;
+    let keys = Object.keys(originalAttrs).concat(Object.keys(currentAttrs));
 
-    return JSON.stringify(originalAttrs) !== JSON.stringify(currentAttrs);
+    return keys.some((key) => {
+      return this._isChanged(key, originalAttrs[key], currentAttrs[key]);
+    });
   }
 
   private _hasDirtyRelationships(includeHash: Object) : boolean {
@@ -1,13 +1,13 @@
 import Model from '../model';
-import Config from '../configuration';
 
 export default function refreshJWT(klass: typeof Model, serverResponse: Response) : void {
   let jwt = serverResponse.headers.get('X-JWT');
   if (!jwt) return
 
-  let localStorage = Config.localStorage;
+  let context = klass.getApiContext();
+  let localStorage = context.localStorage;
   if (localStorage) {
-    let localStorageKey = Config.jwtLocalStorage;
+    let localStorageKey = context.jwtLocalStorage;
     if (localStorageKey) {
       localStorage['setItem'](localStorageKey, jwt);
     }
@@ -0,0 +1,77 @@
+/// <reference path="../../types/index.d.ts" />
+
+// Decides how often and how long to wait before retrying a failed
+// request. Request decides *whether* a given failure is retryable.
+export default class RetryPolicy {
+  // A single attempt, i.e. retries are opt-in
+  static defaults: retryOptions = {
+    maxAttempts: 1,
+    baseDelay: 200,
+    maxDelay: 10000,
+    jitter: true,
+    statuses: [429, 502, 503, 504],
+    methods: ['GET']
+  }
+
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  jitter: boolean;
+  statuses: Array<number>;
+  methods: Array<string>;
+
+  // Later options take precedence, e.g. Config, then model, then request
+  constructor(...options: Array<retryOptions>) {
+    let merged = Object.assign({}, RetryPolicy.defaults, ...options);
+
+    this.maxAttempts = merged.maxAttempts;
+    this.baseDelay = merged.baseDelay;
+    this.maxDelay = merged.maxDelay;
+    this.jitter = merged.jitter;
+    this.statuses = merged.statuses;
+    this.methods = merged.methods.map((m) => { return m.toUpperCase(); });
+  }
+
+  allowsRetry(method: string, attempt: number) : boolean {
+    return attempt < this.maxAttempts && this.methods.indexOf(method) !== -1;
+  }
+
+  isRetryableStatus(status: number) : boolean {
+    return this.statuses.indexOf(status) !== -1;
+  }
+
+  // Honors Retry-After when the server sends it, otherwise backs off
+  // exponentially from baseDelay, up to maxDelay
+  delayFor(attempt: number, response?: Response) : number {
+    let retryAfter = this._retryAfter(response);
+    if (retryAfter !== null) return retryAfter;
+
+    let delay = Math.min(this.maxDelay, this.baseDelay * Math.pow(2, attempt - 1));
+
+    if (this.jitter) {
+      delay = delay / 2 + Math.random() * delay / 2;
+    }
+
+    return Math.round(delay);
+  }
+
+  // private
+
+  // Either a number of seconds, or an HTTP date
+  private _retryAfter(response?: Response) : number | null {
+    let header = response && response.headers && response.headers.get('Retry-After');
+    if (!header) return null;
+
+    let seconds = Number(header);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    let date = Date.parse(header);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return null;
+  }
+}
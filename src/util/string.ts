@@ -10,4 +10,10 @@ const decamelize = function(str) {
   return str.replace(/([A-Z])/g, function($1){return $1.replace($1,'_' + $1).toLowerCase();});
 }
 
-export { underscore, camelize, decamelize };
+// firstName or first_name => First name
+const humanize = function(str) {
+  let words = underscore(str).replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export { underscore, camelize, decamelize, humanize };
@@ -1,48 +1,100 @@
+/// <reference path="../../types/index.d.ts" />
+
 import Model from '../model';
-import { camelize } from './string'
+import { camelize, humanize } from './string'
 
+// Applies the JSON:API errors of a 422 response to the model and any
+// nested records sent with it. Errors are matched to a record and
+// attribute by meta.relationship/meta.attribute, or by source.pointer,
+// e.g. /data/attributes/title or
+// /data/relationships/books/data/0/attributes/title.
+// Errors without an attribute are assigned to "base".
 export default class ValidationErrors {
   model: Model;
-  payload: Array<Object> = [];
+  payload: japiDoc;
+  private _accumulators: Array<{ model: Model, errors: validationErrors }> = [];
 
-  constructor(model: Model, payload: Array<Object>) {
+  constructor(model: Model, payload: japiDoc) {
     this.model = model;
     this.payload = payload;
   }
 
-  static apply(model: Model, payload: Array<Object>) {
+  static apply(model: Model, payload: japiDoc) {
     let instance = new ValidationErrors(model, payload);
-    let errors = instance.apply();
+    instance.apply();
   }
 
-  apply() {
-    let errorsAccumulator = {}
+  apply() : void {
+    this._accumulatorFor(this.model);
 
-    this.payload['errors'].forEach((err) => {
-      let meta = err['meta'];
-      let metaRelationship = meta['relationship'];
+    (this.payload.errors || []).forEach((err) => {
+      let meta = err.meta || {};
 
-      if (metaRelationship) {
-        this._processRelationship(this.model, metaRelationship);
+      if (meta.relationship) {
+        this._processRelationship(this.model, meta.relationship, err);
+      } else if (err.source && err.source.pointer !== undefined) {
+        this._processPointer(this.model, err.source.pointer.split('/').slice(1), err);
       } else {
-        this._processResource(errorsAccumulator, meta);
+        this._addError(this.model, meta.attribute, meta.message, err);
       }
     });
 
-    this.model.errors = errorsAccumulator
+    // make sure to assign a new error object, instead of mutating
+    // the existing one, otherwise js frameworks with object tracking
+    // won't be able to keep up. Validate vue.js when changing this code:
+    this._accumulators.forEach((accumulator) => {
+      accumulator.model.errors = accumulator.errors;
+    });
   }
 
-  private _processResource(errorsAccumulator: object, meta: Object) {
-    let attribute = meta['attribute']
+  // private
 
-    if (this.model.klass.camelizeKeys) {
-      attribute = camelize(attribute)
+  private _accumulatorFor(model: Model) : validationErrors {
+    let accumulator = this._accumulators.filter((a) => { return a.model === model; })[0];
+
+    if (!accumulator) {
+      accumulator = { model, errors: {} };
+      this._accumulators.push(accumulator);
     }
 
-    errorsAccumulator[attribute] = meta['message'];
+    return accumulator.errors;
   }
 
-  private _processRelationship(model: Model, meta: Object) {
+  private _addError(model: Model, attribute: string | void, message: string | void, err: japiError) : void {
+    let key = attribute ? this._attributeName(model, attribute) : 'base';
+    let fullMessage;
+
+    if (message) {
+      fullMessage = key === 'base' ? message : `${humanize(key)} ${message}`;
+    } else {
+      // detail is meant to be displayed as-is
+      message = fullMessage = err.detail || err.title;
+    }
+
+    let error: validationError = {
+      attribute: key,
+      message: <string>message,
+      fullMessage,
+      code: err.code,
+      title: err.title,
+      detail: err.detail,
+      source: err.source,
+      meta: err.meta
+    };
+
+    let errors = this._accumulatorFor(model);
+    errors[key] = (errors[key] || []).concat([error]);
+  }
+
+  private _attributeName(model: Model, attribute: string) : string {
+    if (model.klass.camelizeKeys) {
+      return camelize(attribute);
+    } else {
+      return attribute;
+    }
+  }
+
+  private _processRelationship(model: Model, meta: Object, err: japiError) {
     let relatedObject = model[meta['name']];
     if (Array.isArray(relatedObject)) {
       relatedObject = relatedObject.find((r) => {
@@ -50,23 +102,45 @@ export default class ValidationErrors {
       });
     }
 
-    if (meta['relationship']) {
-      this._processRelationship(relatedObject, meta['relationship']);
+    if (!relatedObject) {
+      this._addError(model, meta['name'], meta['message'], err);
+    } else if (meta['relationship']) {
+      this._processRelationship(relatedObject, meta['relationship'], err);
     } else {
-      let relatedAccumulator = {}
-      this._processResource(relatedAccumulator, meta);
-
-      // make sure to assign a new error object, instead of mutating
-      // the existing one, otherwise js frameworks with object tracking
-      // won't be able to keep up. Validate vue.js when changing this code:
-      let newErrs = {}
-      Object.keys(relatedObject.errors).forEach((key) => {
-        newErrs[key] = relatedObject.errors[key]
-      });
-      Object.keys(relatedAccumulator).forEach((key) => {
-        newErrs[key] = relatedAccumulator[key]
-      });
-      relatedObject.errors = newErrs
+      this._addError(relatedObject, meta['attribute'], meta['message'], err);
+    }
+  }
+
+  // segments of the pointer after the leading slash, e.g.
+  // ['data', 'relationships', 'books', 'data', '0', 'attributes', 'title']
+  private _processPointer(model: Model, segments: Array<string>, err: japiError) {
+    let meta = err.meta || {};
+
+    if (segments[0] !== 'data') {
+      return this._addError(model, null, meta.message, err);
+    }
+
+    let [section, name, ...rest] = segments.slice(1);
+
+    if (section === 'attributes' && name) {
+      this._addError(model, name, meta.message, err);
+    } else if (section === 'relationships' && name) {
+      let relatedObject = model[this._attributeName(model, name)];
+      let remaining = rest.slice(1);
+
+      if (Array.isArray(relatedObject)) {
+        relatedObject = relatedObject[Number(remaining[0])];
+        remaining = remaining.slice(1);
+      }
+
+      if (rest[0] === 'data' && relatedObject && remaining.length > 0) {
+        this._processPointer(relatedObject, ['data'].concat(remaining), err);
+      } else {
+        // an error on the relationship itself
+        this._addError(model, name, meta.message, err);
+      }
+    } else {
+      this._addError(model, null, meta.message, err);
     }
   }
 }
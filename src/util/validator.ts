@@ -0,0 +1,165 @@
+/// <reference path="../../types/index.d.ts" />
+
+import Model from '../model';
+import IncludeDirective from './include-directive';
+import { humanize } from './string';
+
+const isBlank = function(value: any) : boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+// Each built-in returns an error message, or nothing when valid.
+// All but presence skip blank values; combine with presence to
+// require them.
+const validators = {
+  presence(value: any, options: any) : string {
+    if (isBlank(value)) return "can't be blank";
+  },
+
+  length(value: any, options: any) : string {
+    if (isBlank(value)) return;
+
+    let length = value.length;
+    if (options.is !== undefined && length !== options.is) {
+      return `is the wrong length (should be ${options.is} characters)`;
+    }
+    if (options.minimum !== undefined && length < options.minimum) {
+      return `is too short (minimum is ${options.minimum} characters)`;
+    }
+    if (options.maximum !== undefined && length > options.maximum) {
+      return `is too long (maximum is ${options.maximum} characters)`;
+    }
+  },
+
+  format(value: any, options: any) : string {
+    if (isBlank(value)) return;
+
+    let pattern = options instanceof RegExp ? options : options.with;
+    if (!pattern.test(value)) return 'is invalid';
+  },
+
+  numericality(value: any, options: any) : string {
+    if (isBlank(value)) return;
+
+    let num = Number(value);
+    if (isNaN(num)) return 'is not a number';
+
+    if (options.onlyInteger && num % 1 !== 0) {
+      return 'must be an integer';
+    }
+    if (options.greaterThan !== undefined && !(num > options.greaterThan)) {
+      return `must be greater than ${options.greaterThan}`;
+    }
+    if (options.greaterThanOrEqualTo !== undefined && !(num >= options.greaterThanOrEqualTo)) {
+      return `must be greater than or equal to ${options.greaterThanOrEqualTo}`;
+    }
+    if (options.lessThan !== undefined && !(num < options.lessThan)) {
+      return `must be less than ${options.lessThan}`;
+    }
+    if (options.lessThanOrEqualTo !== undefined && !(num <= options.lessThanOrEqualTo)) {
+      return `must be less than or equal to ${options.lessThanOrEqualTo}`;
+    }
+  },
+
+  inclusion(value: any, options: any) : string {
+    if (isBlank(value)) return;
+
+    let list = Array.isArray(options) ? options : options.in;
+    if (list.indexOf(value) === -1) return 'is not included in the list';
+  }
+}
+
+// Runs the validations declared with attr({ validates: { ... } }),
+// assigning messages to model.errors in the same shape as server-side
+// validation errors.
+class Validator {
+  model: Model;
+
+  constructor(model: Model) {
+    this.model = model;
+  }
+
+  // Validates the model, plus any nested records in the include
+  // directive, the same way save({ with }) would send them
+  validate(relationships: Object | Array<any> | string = {}) : boolean {
+    let includeHash = new IncludeDirective(relationships).toObject();
+    let valid = this._validateAttributes();
+
+    this._eachRelatedObject(includeHash, (relatedObject, nested) => {
+      if (!relatedObject.validate(nested)) {
+        valid = false;
+      }
+    });
+
+    return valid;
+  }
+
+  // private
+
+  private _validateAttributes() : boolean {
+    let errors: validationErrors = {};
+    let attributeList = this.model.klass.attributeList;
+
+    Object.keys(attributeList).forEach((key) => {
+      let attribute = attributeList[key];
+      let error = this._firstError(key, attribute.validations, this.model[key]);
+
+      if (error) {
+        errors[key] = [error];
+      }
+    });
+
+    // assign a new object so js frameworks with object tracking notice
+    this.model.errors = errors;
+    return Object.keys(errors).length === 0;
+  }
+
+  private _firstError(key: string, validations: Object, value: any) : validationError {
+    for (let name in validations) {
+      let options = validations[name];
+      let message;
+
+      if (options === false || options === undefined) continue;
+
+      if (typeof options === 'function') {
+        message = options(value, this.model);
+      } else if (validators[name]) {
+        message = validators[name](value, options);
+        if (message && options.message) message = options.message;
+      } else {
+        throw(`Unknown validation "${name}"`);
+      }
+
+      if (message) {
+        return {
+          attribute: key,
+          code: name,
+          message,
+          fullMessage: `${humanize(key)} ${message}`
+        };
+      }
+    }
+  }
+
+  // Records marked for destruction or disassociation won't be saved,
+  // so there is nothing to validate
+  private _eachRelatedObject(includeHash: Object, callback: Function) : void {
+    Object.keys(includeHash).forEach((key) => {
+      let nested = includeHash[key];
+      let relatedObjects = this.model[key];
+      if (!Array.isArray(relatedObjects)) relatedObjects = [relatedObjects];
+      relatedObjects.forEach((relatedObject) => {
+        if (relatedObject &&
+            !relatedObject.isMarkedForDestruction() &&
+            !relatedObject.isMarkedForDisassociation()) {
+          callback(relatedObject, nested);
+        }
+      });
+    });
+  }
+}
+
+export default Validator;
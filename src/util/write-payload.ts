@@ -2,6 +2,7 @@ import Model from '../model';
 import IncludeDirective from './include-directive';
 import * as _snakeCase from './snakecase';
 import tempId from './temp-id';
+import { runBeforeWriteCallbacks, runAfterWriteCallbacks } from './callbacks';
 import { decamelize } from './string';
 let snakeCase: any = (<any>_snakeCase).default || _snakeCase;
 snakeCase = snakeCase['default'] || snakeCase;
@@ -10,6 +11,9 @@ export default class WritePayload {
   model: Model;
   includeDirective: Object;
   included: Array<Object> = [];
+  // nested records sent with this payload, and what we asked the server
+  // to do with each
+  processed: Array<{ model: Model, method: string }> = [];
 
   constructor(model : Model, relationships: string | Array<any> | Object) {
     let includeDirective = new IncludeDirective(relationships);
@@ -22,9 +26,10 @@ export default class WritePayload {
 
     this._eachAttribute((key, value) => {
       let snakeKey    = snakeCase(key);
+      let attribute   = this.model.klass.attributeList[key];
 
       if (!this.model.isPersisted() || this.model.changes()[key]) {
-        attrs[snakeKey] = value;
+        attrs[snakeKey] = attribute.serialize(value);
       }
     });
 
@@ -38,9 +43,10 @@ export default class WritePayload {
       let relatedObjects = model[key];
       if (relatedObjects) {
         if (Array.isArray(relatedObjects)) {
-          relatedObjects.forEach((relatedObject, index) => {
+          // iterate a copy, since we splice as we go
+          relatedObjects.slice().forEach((relatedObject) => {
             if (relatedObject.isMarkedForDestruction() || relatedObject.isMarkedForDisassociation()) {
-              model[key].splice(index, 1);
+              model[key].splice(model[key].indexOf(relatedObject), 1);
             } else {
               this.removeDeletions(relatedObject, nested);
             }
@@ -62,6 +68,12 @@ export default class WritePayload {
     this.model.resetRelationTracking(this.includeDirective);
   }
 
+  runAfterCallbacks() {
+    this.processed.forEach((p) => {
+      runAfterWriteCallbacks(p.model, p.method);
+    });
+  }
+
   relationships() : Object {
     let _relationships = {};
 
@@ -134,10 +146,15 @@ export default class WritePayload {
   private _processRelatedModel(model: Model, nested: Object) {
     model.clearErrors();
 
-    if (!model.isPersisted()) {
+    // keep a temp-id the record already has, e.g. from a queued
+    // offline create, so the server can match it up
+    if (!model.isPersisted() && !model.temp_id) {
       model.temp_id = tempId.generate()
     }
 
+    let method = this._methodFor(model);
+    runBeforeWriteCallbacks(model, method);
+
     let wp            = new WritePayload(model, nested);
     let relatedJSON   = wp.asJSON()['data'];
 
@@ -146,6 +163,10 @@ export default class WritePayload {
     wp.included.forEach((incl) => {
       this._pushInclude(incl);
     });
+    this.processed.push({ model, method });
+    wp.processed.forEach((p) => {
+      this.processed.push(p);
+    });
     return resourceIdentifier;
   }
 
@@ -161,21 +182,23 @@ export default class WritePayload {
       identifier['temp-id'] = model.temp_id;
     }
 
-    let method;
+    identifier['method'] = this._methodFor(model);
+
+    return identifier;
+  }
+
+  private _methodFor(model: Model) : string {
     if (model.isPersisted()) {
       if (model.isMarkedForDestruction()) {
-        method = 'destroy';
+        return 'destroy';
       } else if (model.isMarkedForDisassociation()) {
-        method = 'disassociate';
+        return 'disassociate';
       } else {
-        method = 'update';
+        return 'update';
       }
     } else {
-      method = 'create';
+      return 'create';
     }
-    identifier['method'] = method;
-
-    return identifier;
   }
 
   private _pushInclude(include: Object) {
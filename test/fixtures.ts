@@ -105,9 +105,17 @@ const configSetup = function(opts = {}) {
 };
 configSetup();
 
+// A record as if loaded from the server
+const persisted = function(klass: any, attrs: Object) : any {
+  let record = new klass(attrs);
+  record.isPersisted(true);
+  return record;
+}
+
 export {
   Config,
   configSetup,
+  persisted,
   ApplicationRecord,
   TestJWTSubclass,
   NonJWTOwner,
@@ -0,0 +1,104 @@
+import { expect, sinon, fetchMock } from '../test-helper';
+import { Config, Person } from '../fixtures';
+import { Model, ApiContext, attr, hasMany } from '../../src/index';
+
+const billing = new ApiContext({ baseUrl: 'http://billing.example.com' });
+
+class BillingRecord extends Model {
+  static apiContext = billing;
+  static apiNamespace = '/api';
+}
+
+// Shares the jsonapiType of the default context's People
+class BillingPerson extends BillingRecord {
+  static jsonapiType = 'people';
+
+  plan = attr({ type: 'plan' });
+  invoices: any = hasMany();
+}
+
+class Invoice extends BillingRecord {
+  static jsonapiType = 'invoices';
+
+  total = attr();
+}
+
+billing.registerAttributeType('plan', {
+  deserialize(value) { return value.toUpperCase(); }
+});
+billing.setup({ jwtOwners: [BillingRecord] });
+Config.setup();
+
+describe('ApiContext', function() {
+  afterEach(function() {
+    fetchMock.restore();
+    billing.beforeFetch = [];
+  });
+
+  it('binds models to their context', function() {
+    expect(BillingPerson.getApiContext()).to.eq(billing);
+    expect(Person.getApiContext()).to.eq(Config);
+    expect(billing.models).to.deep.eq([BillingRecord, BillingPerson, Invoice]);
+    expect(Config.models).not.to.include(BillingPerson);
+  });
+
+  it('keeps a separate type mapping', function() {
+    expect(billing.modelForType('people')).to.eq(BillingPerson);
+    expect(Config.modelForType('people')).to.eq(Person);
+    expect(() => { billing.modelForType('authors'); }).to.throw('Could not find class for jsonapi type "authors"');
+  });
+
+  it('uses the context baseUrl', function() {
+    expect(BillingPerson.url()).to.eq('http://billing.example.com/api/people');
+  });
+
+  it('deserializes with its own types and attribute types', function() {
+    fetchMock.get('http://billing.example.com/api/people/1?include=invoices', {
+      data: {
+        id: '1',
+        type: 'people',
+        attributes: { plan: 'gold' },
+        relationships: { invoices: { data: [{ id: '9', type: 'invoices' }] } }
+      },
+      included: [{ id: '9', type: 'invoices', attributes: { total: 10 } }]
+    });
+
+    return BillingPerson.includes('invoices').find(1).then(({ data }) => {
+      let person = <BillingPerson>data;
+      expect(person).to.be.instanceof(BillingPerson);
+      expect(person.plan).to.eq('GOLD');
+      expect(person.invoices[0]).to.be.instanceof(Invoice);
+    });
+  });
+
+  it('runs its own middleware only', function() {
+    let urls = [];
+    billing.beforeFetch.push((url) => { urls.push(url); });
+    fetchMock.mock('*', { data: [] });
+
+    return BillingPerson.all().then(() => {
+      return Person.all();
+    }).then(() => {
+      expect(urls).to.deep.eq(['http://billing.example.com/api/people']);
+    });
+  });
+
+  describe('JWT storage', function() {
+    beforeEach(function() {
+      billing.jwtLocalStorage = 'billingJwt';
+      billing.localStorage = { setItem: sinon.spy() };
+    });
+
+    afterEach(function() {
+      billing.jwtLocalStorage = undefined;
+      billing.localStorage = undefined;
+      BillingRecord.jwt = null;
+    });
+
+    it('uses the context storage key', function() {
+      BillingPerson.setJWT('t0k3n');
+      expect(BillingRecord.jwt).to.eq('t0k3n');
+      expect(billing.localStorage.setItem.calledWith('billingJwt', 't0k3n')).to.eq(true);
+    });
+  });
+});
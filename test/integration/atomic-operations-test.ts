@@ -0,0 +1,226 @@
+import { expect, fetchMock, FakeServer } from '../test-helper';
+import { Config, ApplicationRecord, Person, persisted } from '../fixtures';
+import { attr, hasMany, belongsTo } from '../../src/index';
+
+class AtomicRecord extends ApplicationRecord {
+  static writeFormat = 'atomic';
+}
+
+class Post extends AtomicRecord {
+  static jsonapiType = 'atomic_posts';
+
+  title: string = attr();
+  comments: any = hasMany('atomic_comments');
+}
+
+class Comment extends AtomicRecord {
+  static jsonapiType = 'atomic_comments';
+
+  body: string = attr();
+  post: any = belongsTo('atomic_posts');
+  tag: any = belongsTo('atomic_tags');
+}
+
+class Tag extends AtomicRecord {
+  static jsonapiType = 'atomic_tags';
+
+  name: string = attr({ validates: { presence: true } });
+}
+
+Config.setup();
+
+const OPERATIONS_URL = 'http://example.com/api/operations';
+
+let server;
+
+describe('Atomic operations', function() {
+  beforeEach(function() {
+    server = new FakeServer();
+
+    // echo back, assigning ids to new records
+    server.post(OPERATIONS_URL, (body) => {
+      let id = 100;
+      return {
+        'atomic:results': body['atomic:operations'].map((op) => {
+          if (op.op === 'remove' || op.ref) return {};
+          let data = Object.assign({}, op.data, { id: op.data.id || String(id++) });
+          delete data.lid;
+          return { data };
+        })
+      };
+    });
+  });
+
+  afterEach(function() {
+    fetchMock.restore();
+  });
+
+  it('falls back to the context writeFormat', function() {
+    expect(Post.getWriteFormat()).to.eq('atomic');
+    expect(Person.getWriteFormat()).to.eq('sideposting');
+  });
+
+  describe('#save', function() {
+    it('posts new nested records before the records referring to them', function() {
+      let post = new Post({ title: 'Hello' });
+      post.comments = [new Comment({ body: 'First' })];
+
+      return post.save({ with: 'comments' }).then((success) => {
+        expect(success).to.eq(true);
+        expect(server.requests[0].headers['Content-Type']).to.eq('application/vnd.api+json; ext="https://jsonapi.org/ext/atomic"');
+
+        let operations = server.requests[0].body['atomic:operations'];
+        let commentLid = operations[0].data.lid;
+        let postLid = operations[1].data.lid;
+        expect(commentLid).to.match(/^temp-id-/);
+        expect(postLid).to.match(/^temp-id-/);
+        expect(operations).to.deep.eq([
+          { op: 'add', data: { type: 'atomic_comments', lid: commentLid, attributes: { body: 'First' } } },
+          {
+            op: 'add',
+            data: {
+              type: 'atomic_posts',
+              lid: postLid,
+              attributes: { title: 'Hello' },
+              relationships: { comments: { data: [{ type: 'atomic_comments', lid: commentLid }] } }
+            }
+          }
+        ]);
+      });
+    });
+
+    it('writes a record shared by several nested records once', function() {
+      let post = new Post({ title: 'Hello' });
+      let tag = new Tag({ name: 'news' });
+      post.comments = [new Comment({ body: 'First', tag }), new Comment({ body: 'Second', tag })];
+
+      return post.save({ with: { comments: 'tag' } }).then((success) => {
+        expect(success).to.eq(true);
+
+        let operations = server.requests[0].body['atomic:operations'];
+        let tagOperations = operations.filter((op) => { return op.data.type === 'atomic_tags'; });
+        expect(operations.length).to.eq(4);
+        expect(tagOperations.length).to.eq(1);
+        expect(operations[2].data.relationships.tag.data.lid).to.eq(tagOperations[0].data.lid);
+        expect(tag.id).to.eq('100');
+      });
+    });
+
+    it('applies atomic:results to each record', function() {
+      let post = new Post({ title: 'Hello' });
+      let comment = new Comment({ body: 'First' });
+      post.comments = [comment];
+
+      return post.save({ with: 'comments' }).then(() => {
+        expect(comment.id).to.eq('100');
+        expect(post.id).to.eq('101');
+        expect(post.isPersisted()).to.eq(true);
+        expect(comment.isPersisted()).to.eq(true);
+        expect(post.isDirty('comments')).to.eq(false);
+      });
+    });
+
+    it('adds to, removes from and destroys members of persisted relationships', function() {
+      let post = persisted(Post, { id: '1', title: 'Hello' });
+      let kept = persisted(Comment, { id: '10', body: 'Kept' });
+      let destroyed = persisted(Comment, { id: '11', body: 'Destroyed' });
+      let removed = persisted(Comment, { id: '12', body: 'Removed' });
+      post.comments = [kept, destroyed, removed];
+      post.resetRelationTracking({ comments: {} });
+
+      let added = new Comment({ body: 'Added' });
+      post.comments.push(added);
+      post.title = 'Updated';
+      destroyed.isMarkedForDestruction(true);
+      removed.isMarkedForDisassociation(true);
+
+      return post.save({ with: 'comments' }).then(() => {
+        let operations = server.requests[0].body['atomic:operations'];
+        expect(operations.map((o) => { return o.op; })).to.deep.eq(['add', 'update', 'add', 'remove', 'remove']);
+        expect(operations[1]).to.deep.eq({
+          op: 'update',
+          data: { type: 'atomic_posts', id: '1', attributes: { title: 'Updated' } }
+        });
+        expect(operations[2]).to.deep.eq({
+          op: 'add',
+          ref: { relationship: 'comments', type: 'atomic_posts', id: '1' },
+          data: [{ type: 'atomic_comments', lid: operations[0].data.lid }]
+        });
+        expect(operations[3]).to.deep.eq({ op: 'remove', ref: { type: 'atomic_comments', id: '11' } });
+        expect(operations[4]).to.deep.eq({
+          op: 'remove',
+          ref: { relationship: 'comments', type: 'atomic_posts', id: '1' },
+          data: [{ type: 'atomic_comments', id: '12' }]
+        });
+        expect(post.comments.map((c) => { return c.body; })).to.deep.eq(['Kept', 'Added']);
+      });
+    });
+
+    it('assigns errors to the record of the operation they point at', function() {
+      let post = new Post({ title: 'Hello' });
+      let comment = new Comment({ body: '' });
+      post.comments = [comment];
+      server.response = {
+        status: 422,
+        body: {
+          errors: [
+            {
+              code: 'blank',
+              detail: 'Body cannot be blank',
+              source: { pointer: '/atomic:operations/0/data/attributes/body' },
+              meta: { attribute: 'body', message: 'cannot be blank' }
+            },
+            { code: 'conflict', detail: 'Something went wrong' }
+          ]
+        }
+      };
+
+      return post.save({ with: 'comments' }).then((success) => {
+        expect(success).to.eq(false);
+        expect(comment.errors.body[0].message).to.eq('cannot be blank');
+        expect(post.errors.base[0].message).to.eq('Something went wrong');
+        expect(post.isPersisted()).to.eq(false);
+      });
+    });
+  });
+
+  describe('.transaction', function() {
+    it('writes unrelated records in one request', function() {
+      let post = persisted(Post, { id: '1', title: 'Hello' });
+      post.title = 'Updated';
+      let comment = new Comment({ body: 'New' });
+      let doomed = persisted(Comment, { id: '5', body: 'Bye' });
+      doomed.isMarkedForDestruction(true);
+
+      return Post.transaction([post, comment, doomed]).then((success) => {
+        expect(success).to.eq(true);
+        expect(server.requests.length).to.eq(1);
+        expect(server.requests[0].body['atomic:operations'].map((o) => { return o.op; })).to.deep.eq(['update', 'add', 'remove']);
+        expect(comment.id).to.eq('100');
+        expect(comment.isPersisted()).to.eq(true);
+        expect(doomed.isPersisted()).to.eq(false);
+        expect(post.isDirty()).to.eq(false);
+      });
+    });
+
+    it('restores the records when the request fails', function() {
+      let post = persisted(Post, { id: '1', title: 'Hello' });
+      post.title = 'Updated';
+      let comment = new Comment({ body: 'New' });
+      server.response = { status: 500, body: { errors: [] } };
+
+      return expect(Post.transaction([post, comment])).to.be.rejected.then(() => {
+        expect(comment.temp_id).to.eq(undefined);
+        expect(comment.isPersisted()).to.eq(false);
+        expect(post.changes()).to.deep.eq({ title: ['Hello', 'Updated'] });
+      });
+    });
+
+    it('resolves false without a request when a record is invalid', function() {
+      return Post.transaction([new Post({ title: 'Hi' }), new Tag()]).then((success) => {
+        expect(success).to.eq(false);
+        expect(server.requests.length).to.eq(0);
+      });
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { expect, fetchMock, FakeServer } from '../test-helper';
+import { Config, ApplicationRecord, persisted } from '../fixtures';
+import { attr, hasMany, ServerError } from '../../src/index';
+
+class Product extends ApplicationRecord {
+  static jsonapiType = 'batch_products';
+
+  name: string = attr();
+  lineItems: any = hasMany('batch_line_items');
+}
+
+class LineItem extends ApplicationRecord {
+  static jsonapiType = 'batch_line_items';
+
+  quantity: number = attr({ validates: { presence: true } });
+}
+
+Config.setup();
+
+let server;
+
+describe('Batches', function() {
+  beforeEach(function() {
+    server = new FakeServer();
+
+    let id = 100;
+    server.post('http://example.com/api/operations', (body) => {
+      return {
+        'atomic:results': body['atomic:operations'].map((op) => {
+          if (op.op === 'remove' || op.ref) return {};
+          let data = Object.assign({}, op.data, { id: op.data.id || String(id++) });
+          delete data.lid;
+          return { data };
+        })
+      };
+    });
+
+    server.post('http://example.com/api/batch', (body) => {
+      return {
+        data: body.data.map((resource) => {
+          if (resource.method === 'destroy') return null;
+          return { type: resource.type, id: resource.id || String(id++), attributes: resource.attributes };
+        })
+      };
+    });
+  });
+
+  afterEach(function() {
+    fetchMock.restore();
+  });
+
+  it('sends the writes as one atomic:operations request by default', function() {
+    let item = new LineItem({ quantity: 2 });
+    let product = persisted(Product, { id: '5', name: 'Old' });
+    product.name = 'New';
+    let discontinued = persisted(Product, { id: '6', name: 'Gone' });
+
+    return Config.batch((tx) => {
+      tx.save(item);
+      tx.save(product);
+      tx.destroy(discontinued);
+    }).then((success) => {
+      expect(success).to.eq(true);
+      expect(server.requests.length).to.eq(1);
+      expect(server.requests[0].body['atomic:operations'].map((o) => { return o.op; })).to.deep.eq(['add', 'update', 'remove']);
+      expect(item.id).to.eq('100');
+      expect(item.isPersisted()).to.eq(true);
+      expect(product.isDirty()).to.eq(false);
+      expect(discontinued.isPersisted()).to.eq(false);
+    });
+  });
+
+  it('waits for a promise returned by the callback', function() {
+    let item = new LineItem({ quantity: 1 });
+
+    return Config.batch((tx) => {
+      return Promise.resolve().then(() => { tx.save(item); });
+    }).then(() => {
+      expect(server.requests.length).to.eq(1);
+      expect(item.isPersisted()).to.eq(true);
+    });
+  });
+
+  it('resolves true without a request when empty', function() {
+    return Config.batch(() => {}).then((success) => {
+      expect(success).to.eq(true);
+      expect(server.requests.length).to.eq(0);
+    });
+  });
+
+  it('resolves false without a request when a record is invalid', function() {
+    return Config.batch((tx) => {
+      tx.save(new LineItem({ quantity: 1 }));
+      tx.save(new LineItem());
+    }).then((success) => {
+      expect(success).to.eq(false);
+      expect(server.requests.length).to.eq(0);
+    });
+  });
+
+  describe('the bulk format', function() {
+    it('posts sideposted resources, with nested records, to the batch path', function() {
+      let product = new Product({ name: 'Widget' });
+      let item = new LineItem({ quantity: 3 });
+      product.lineItems = [item];
+      let discontinued = persisted(Product, { id: '6', name: 'Gone' });
+
+      return Config.batch((tx) => {
+        tx.save(product, { with: 'lineItems' });
+        tx.destroy(discontinued);
+      }, { format: 'bulk' }).then((success) => {
+        expect(success).to.eq(true);
+
+        let body = server.requests[0].body;
+        expect(server.requests[0].url).to.eq('http://example.com/api/batch');
+        expect(body.data.map((r) => { return r.method; })).to.deep.eq(['create', 'destroy']);
+        expect(body.data[1]).to.deep.eq({ type: 'batch_products', id: '6', method: 'destroy' });
+        expect(body.data[0].relationships.line_items.data[0].method).to.eq('create');
+        expect(body.included[0].attributes).to.deep.eq({ quantity: 3 });
+        expect(product.id).to.eq('100');
+        expect(discontinued.isPersisted()).to.eq(false);
+      });
+    });
+
+    it('assigns errors to the record of the resource they point at', function() {
+      let first = new LineItem({ quantity: 1 });
+      let second = new LineItem({ quantity: 500 });
+      server.response = {
+        status: 422,
+        body: {
+          errors: [{
+            code: 'too_many',
+            detail: 'Quantity is too large',
+            source: { pointer: '/data/1/attributes/quantity' },
+            meta: { attribute: 'quantity', message: 'is too large' }
+          }]
+        }
+      };
+
+      return Config.batch((tx) => {
+        tx.save(first);
+        tx.save(second);
+      }, { format: 'bulk' }).then((success) => {
+        expect(success).to.eq(false);
+        expect(first.errors).to.deep.eq({});
+        expect(second.errors.quantity[0].message).to.eq('is too large');
+        expect(second.isPersisted()).to.eq(false);
+      });
+    });
+  });
+
+  it('posts to the given url', function() {
+    server.post('http://example.com/api/v2/bulk', () => { return { data: [{ type: 'batch_line_items', id: '1' }] }; });
+
+    return Config.batch((tx) => {
+      tx.save(new LineItem({ quantity: 1 }));
+    }, { format: 'bulk', url: 'http://example.com/api/v2/bulk' }).then(() => {
+      expect(server.requests[0].url).to.eq('http://example.com/api/v2/bulk');
+    });
+  });
+
+  describe('when the batch fails', function() {
+    it('restores the records and rejects', function() {
+      let item = new LineItem({ quantity: 2 });
+      let product = persisted(Product, { id: '5', name: 'Old' });
+      product.name = 'New';
+      let discontinued = persisted(Product, { id: '6', name: 'Gone' });
+      server.response = { status: 500, body: { errors: [] } };
+
+      let promise = Config.batch((tx) => {
+        tx.save(item);
+        tx.save(product);
+        tx.destroy(discontinued);
+      });
+
+      return expect(promise).to.be.rejectedWith(ServerError).then((e) => {
+        expect(e.response.status).to.eq(500);
+        expect(item.temp_id).to.eq(undefined);
+        expect(item.isPersisted()).to.eq(false);
+        expect(product.changes()).to.deep.eq({ name: ['Old', 'New'] });
+        expect(discontinued.isMarkedForDestruction()).to.eq(false);
+        expect(discontinued.isPersisted()).to.eq(true);
+      });
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { expect, fetchMock } from '../test-helper';
+import { Config, ApplicationRecord } from '../fixtures';
+import { attr, hasMany } from '../../src/index';
+
+class Shelf extends ApplicationRecord {
+  static jsonapiType = 'shelves';
+
+  name = attr();
+  volumes = hasMany('volumes');
+}
+
+class Volume extends ApplicationRecord {
+  static jsonapiType = 'volumes';
+
+  title = attr();
+}
+
+class RareVolume extends Volume {
+  static jsonapiType = 'rare_volumes';
+}
+Config.setup();
+
+let calls;
+let abortWith;
+let throwWith;
+let abortVolumes;
+
+Shelf.addCallback('beforeValidate', function() { calls.push(['beforeValidate', this.name]); });
+Shelf.addCallback('beforeSave', function() {
+  calls.push(['beforeSave', this.name]);
+  if (throwWith) throw throwWith;
+  this.name = this.name.trim();
+  return abortWith;
+});
+Shelf.addCallback('beforeCreate', function() { calls.push(['beforeCreate', this.name]); });
+Shelf.addCallback('afterCreate', function() { calls.push(['afterCreate', this.id]); });
+Shelf.addCallback('beforeUpdate', function() { calls.push(['beforeUpdate', this.name]); });
+Shelf.addCallback('afterSave', function() { calls.push(['afterSave', this.id]); });
+Shelf.addCallback('beforeDestroy', function() { calls.push(['beforeDestroy', this.id]); return abortWith; });
+Shelf.addCallback('afterDestroy', function() { calls.push(['afterDestroy', this.isPersisted()]); });
+Shelf.addCallback('afterLoad', function() { calls.push(['afterLoad', this.name]); });
+
+Volume.addCallback('beforeSave', function() { return !abortVolumes; });
+Volume.addCallback('beforeCreate', function() { calls.push(['volume beforeCreate', this.title]); });
+Volume.addCallback('afterCreate', function() { calls.push(['volume afterCreate', this.id]); });
+Volume.addCallback('beforeDestroy', function() { calls.push(['volume beforeDestroy', this.id]); });
+Volume.addCallback('afterDestroy', function() { calls.push(['volume afterDestroy', this.id]); });
+RareVolume.addCallback('beforeSave', function() { return !abortVolumes; });
+Volume.addCallback('beforeCreate', function() { calls.push(['rare beforeCreate', this.title]); });
+
+describe('Model callbacks', function() {
+  let shelf;
+  let payloads;
+
+  beforeEach(function() {
+    calls = [];
+    payloads = [];
+    abortWith = undefined;
+    throwWith = undefined;
+    abortVolumes = false;
+    fetchMock.restore();
+
+    fetchMock.post('http://example.com/api/shelves', function(url, payload) {
+      payloads.push(JSON.parse(payload.body));
+      return {
+        data: {
+          id: '1',
+          type: 'shelves',
+          attributes: { name: 'Fiction' },
+          relationships: {
+            volumes: { data: [{ id: '10', type: 'rare_volumes', ['temp-id']: 'abc1' }] }
+          }
+        },
+        included: [{ id: '10', type: 'rare_volumes', ['temp-id']: 'abc1' }]
+      };
+    });
+
+    fetchMock.put('http://example.com/api/shelves/1', function(url, payload) {
+      payloads.push(JSON.parse(payload.body));
+      return { data: { id: '1', type: 'shelves' } };
+    });
+
+    fetchMock.delete('http://example.com/api/shelves/1', { data: {} });
+
+    shelf = new Shelf({ name: ' Fiction ' });
+  });
+
+  it('throws on unknown callback names', function() {
+    let fn = function() { Shelf.addCallback('beforeSomething', function() {}) };
+    expect(fn).to.throw(/Unknown callback "beforeSomething"/);
+  });
+
+  describe('on create', function() {
+    it('runs callbacks in order', function() {
+      return shelf.save().then(() => {
+        expect(calls).to.deep.eq([
+          ['beforeValidate', ' Fiction '],
+          ['beforeSave', ' Fiction '],
+          ['beforeCreate', 'Fiction'],
+          ['afterLoad', 'Fiction'],
+          ['afterCreate', '1'],
+          ['afterSave', '1']
+        ]);
+      });
+    });
+
+    it('sends changes made by before callbacks', function() {
+      return shelf.save().then(() => {
+        expect(payloads[0].data.attributes.name).to.eq('Fiction');
+      });
+    });
+
+    it('aborts when a callback returns false', function() {
+      abortWith = false;
+      return shelf.save().then((success) => {
+        expect(success).to.eq(false);
+        expect(fetchMock.called()).to.eq(false);
+        expect(calls.map((c) => { return c[0]; })).to.deep.eq(['beforeValidate', 'beforeSave']);
+      });
+    });
+
+    it('rejects when a callback throws', function() {
+      throwWith = new Error('nope');
+      return expect(shelf.save()).to.be.rejectedWith(throwWith).then(() => {
+        expect(fetchMock.called()).to.eq(false);
+      });
+    });
+  });
+
+  describe('on update', function() {
+    it('runs update callbacks', function() {
+      shelf.id = '1';
+      shelf.isPersisted(true);
+      return shelf.save().then(() => {
+        expect(calls.map((c) => { return c[0]; })).to.deep.eq([
+          'beforeValidate', 'beforeSave', 'beforeUpdate', 'afterLoad', 'afterSave'
+        ]);
+      });
+    });
+  });
+
+  describe('on nested records', function() {
+    it('runs callbacks for each record, inheriting through parentClass', function() {
+      shelf.volumes = [new RareVolume({ title: 'Dune' })];
+      return shelf.save({ with: 'volumes' }).then(() => {
+        let names = calls.map((c) => { return c[0]; });
+        expect(names.indexOf('volume beforeCreate')).to.be.below(names.indexOf('rare beforeCreate'));
+        expect(names.indexOf('rare beforeCreate')).to.be.above(names.indexOf('beforeCreate'));
+        expect(names).to.include('volume afterCreate');
+      });
+    });
+
+    it('aborts the whole save when a nested callback returns false', function() {
+      let volume = new Volume({ title: 'Dune' });
+      shelf.volumes = [volume];
+      abortVolumes = true;
+
+      return shelf.save({ with: 'volumes' }).then((success) => {
+        expect(success).to.eq(false);
+        expect(fetchMock.called()).to.eq(false);
+      });
+    });
+
+    it('runs destroy callbacks for records marked for destruction', function() {
+      let volume = new Volume({ id: '5', title: 'Gone' });
+      volume.isPersisted(true);
+      volume.isMarkedForDestruction(true);
+      shelf.id = '1';
+      shelf.isPersisted(true);
+      shelf.volumes = [volume];
+
+      return shelf.save({ with: 'volumes' }).then(() => {
+        expect(calls).to.deep.include.members([
+          ['volume beforeDestroy', '5'],
+          ['volume afterDestroy', '5']
+        ]);
+      });
+    });
+  });
+
+  describe('on destroy', function() {
+    beforeEach(function() {
+      shelf.id = '1';
+      shelf.isPersisted(true);
+    });
+
+    it('runs destroy callbacks', function() {
+      return shelf.destroy().then(() => {
+        expect(calls).to.deep.eq([
+          ['beforeDestroy', '1'],
+          ['afterDestroy', false]
+        ]);
+      });
+    });
+
+    it('aborts when a callback returns false', function() {
+      abortWith = false;
+      return shelf.destroy().then((success) => {
+        expect(success).to.eq(false);
+        expect(fetchMock.called()).to.eq(false);
+      });
+    });
+  });
+});
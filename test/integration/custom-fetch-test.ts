@@ -0,0 +1,81 @@
+import { expect, fetchMock } from '../test-helper';
+import { Config, ApplicationRecord, Author, Person } from '../fixtures';
+import { ResponseError } from '../../src/index';
+
+// Records each call and responds without touching the global fetch
+const fakeFetch = function(calls: Array<any>, json: Object) {
+  return function(url: string, options: RequestInit) {
+    calls.push({ url, method: options.method });
+    return Promise.resolve(new Response(JSON.stringify(json), { status: 200 }));
+  };
+}
+
+describe('Custom fetch implementations', function() {
+  let calls;
+
+  beforeEach(function() {
+    calls = [];
+    // Unmatched requests would throw here
+    fetchMock.mock('*', 500);
+  });
+
+  afterEach(function() {
+    fetchMock.restore();
+    Config.fetch = null;
+    ApplicationRecord.fetch = undefined;
+    Author.fetch = undefined;
+  });
+
+  describe('with Config.fetch', function() {
+    beforeEach(function() {
+      Config.fetch = <any>fakeFetch(calls, { data: [{ id: '1', type: 'people' }] });
+    });
+
+    it('is used for reads', function() {
+      return Person.all().then((result) => {
+        expect(result.data[0].id).to.eq('1');
+        expect(calls).to.deep.eq([
+          { url: 'http://example.com/api/v1/people', method: 'GET' }
+        ]);
+        expect(fetchMock.called()).to.eq(false);
+      });
+    });
+
+    it('is used for writes', function() {
+      Config.fetch = <any>fakeFetch(calls, { data: { id: '1', type: 'people' } });
+      let person = new Person({ firstName: 'Jane' });
+
+      return person.save().then(() => {
+        return person.destroy();
+      }).then(() => {
+        expect(calls.map((c) => { return c.method; })).to.deep.eq(['POST', 'DELETE']);
+      });
+    });
+  });
+
+  describe('per model', function() {
+    it('prefers the model, then its ancestors, then Config', function() {
+      let configCalls = [];
+      let modelCalls = [];
+      Config.fetch = <any>fakeFetch(configCalls, { data: [] });
+      ApplicationRecord.fetch = <any>fakeFetch(calls, { data: [] });
+      Author.fetch = <any>fakeFetch(modelCalls, { data: [] });
+
+      return Author.all().then(() => {
+        return Person.all();
+      }).then(() => {
+        expect(modelCalls.length).to.eq(1);
+        expect(calls.length).to.eq(1);
+        expect(configCalls.length).to.eq(0);
+      });
+    });
+  });
+
+  describe('by default', function() {
+    it('uses the global fetch', function() {
+      return expect(Person.all()).to.be.rejectedWith(ResponseError).then(() => {
+        expect(fetchMock.called()).to.eq(true);
+      });
+    });
+  });
+});
@@ -1,5 +1,15 @@
 import { expect, fetchMock } from '../test-helper';
-import { Person, Author, Book } from '../fixtures';
+import { Config, ApplicationRecord, Person, Author, Book } from '../fixtures';
+import { attr, ServerError } from '../../src/index';
+import IdentityMap from '../../src/identity-map';
+
+class Meeting extends ApplicationRecord {
+  static jsonapiType = 'identity_meetings';
+
+  startsOn: Date = attr({ type: 'date' });
+}
+
+Config.setup();
 
 after(function () {
   fetchMock.restore();
@@ -58,6 +68,118 @@ describe('Model finders', function() {
     });
   });
 
+  describe('with an identity map', function() {
+    let firstName;
+    let attributes;
+
+    beforeEach(function() {
+      Config.identityMap = new IdentityMap();
+      firstName = 'John';
+      attributes = null;
+      fetchMock.restore();
+      fetchMock.get('http://example.com/api/v1/people/1', function() {
+        return {
+          data: {
+            id: '1',
+            type: 'people',
+            attributes: attributes || { firstName, lastName: 'Doe' }
+          }
+        };
+      });
+    });
+
+    afterEach(function() {
+      Config.identityMap = null;
+    });
+
+    it('resolves the same instance across requests', function() {
+      return resultData(Person.find(1)).then((first) => {
+        return resultData(Person.find(1)).then((second) => {
+          expect(second).to.eq(first);
+        });
+      });
+    });
+
+    it('merges newly fetched attributes into the existing instance', function() {
+      return resultData(Person.find(1)).then((person) => {
+        firstName = 'Jane';
+        return resultData(Person.find(1)).then(() => {
+          expect(person.firstName).to.eq('Jane');
+          expect(person.isDirty()).to.eq(false);
+        });
+      });
+    });
+
+    it('keeps unsaved local changes', function() {
+      return resultData(Person.find(1)).then((person) => {
+        person.lastName = 'Smith';
+        firstName = 'Jane';
+        return resultData(Person.find(1)).then(() => {
+          expect(person.firstName).to.eq('Jane');
+          expect(person.lastName).to.eq('Smith');
+          expect(person.changes()).to.deep.eq({ lastName: ['Doe', 'Smith'] });
+        });
+      });
+    });
+
+    it('keeps unsaved local changes the response leaves out', function() {
+      return resultData(Person.find(1)).then((person) => {
+        person.lastName = 'Smith';
+        attributes = { firstName: 'Jane' };
+        return resultData(Person.find(1)).then(() => {
+          expect(person.lastName).to.eq('Smith');
+          expect(person.changes()).to.deep.eq({ lastName: ['Doe', 'Smith'] });
+        });
+      });
+    });
+
+    it('keeps unsaved relationship changes', function() {
+      fetchMock.get('http://example.com/api/v1/authors/1?include=books', {
+        data: { id: '1', type: 'authors', relationships: { books: { data: [{ id: '1', type: 'books' }] } } },
+        included: [{ id: '1', type: 'books', attributes: { title: 'It' } }]
+      });
+
+      return resultData(Author.includes('books').find(1)).then((author) => {
+        let added = new Book({ id: '2' });
+        added.isPersisted(true);
+        author.books.push(added);
+
+        return resultData(Author.includes('books').find(1)).then((refetched) => {
+          expect(refetched).to.eq(author);
+          expect(author.isDirty('books')).to.eq(true);
+          expect(author.relationshipChanges().books.added).to.deep.eq([added]);
+        });
+      });
+    });
+
+    it('compares retained changes with deserialized server values', function() {
+      let startsOn = '2017-03-04';
+      fetchMock.get('http://example.com/api/identity_meetings/1', function() {
+        return { data: { id: '1', type: 'identity_meetings', attributes: { starts_on: startsOn } } };
+      });
+
+      return resultData(Meeting.find(1)).then((meeting) => {
+        meeting.startsOn = new Date(2017, 2, 5);
+        startsOn = '2017-03-06';
+        return resultData(Meeting.find(1)).then(() => {
+          let [prior, current] = meeting.changes()['startsOn'];
+          expect(prior).to.be.instanceof(Date);
+          expect(prior.getDate()).to.eq(6);
+          expect(current.getDate()).to.eq(5);
+        });
+      });
+    });
+
+    it('returns fresh instances once cleared', function() {
+      return resultData(Person.find(1)).then((first) => {
+        Config.identityMap.clear();
+        return resultData(Person.find(1)).then((second) => {
+          expect(second).not.to.eq(first);
+        });
+      });
+    });
+  });
+
   describe('#first()', function() {
     before(function () {
       // NOTE: This limits to only one record
@@ -121,6 +243,36 @@ describe('Model finders', function() {
     });
   });
 
+  describe('#count', function() {
+    beforeEach(function () {
+      fetchMock.restore();
+      fetchMock.get('http://example.com/api/v1/people?page[size]=0&filter[name]=Joe&stats[total]=count', {
+        data: [],
+        meta: {
+          stats: {
+            total: {
+              count: 45
+            }
+          }
+        }
+      });
+    });
+
+    it('resolves to the total count without fetching records', function() {
+      return expect(Person.where({ name: 'Joe' }).count()).to.eventually.eq(45);
+    });
+
+    it('rejects when the response has no count', function() {
+      fetchMock.restore();
+      fetchMock.get('http://example.com/api/v1/people?page[size]=0&filter[name]=Joe&stats[total]=count', {
+        data: [],
+        meta: {}
+      });
+
+      return expect(Person.where({ name: 'Joe' }).count()).to.be.rejectedWith(Error, 'stats.total.count');
+    });
+  });
+
   describe('#page', function() {
     before(function () {
       fetchMock.get('http://example.com/api/v1/people?page[number]=2', {
@@ -404,4 +556,138 @@ describe('Model finders', function() {
       });
     });
   });
+
+  describe('#each', function() {
+    beforeEach(function() {
+      fetchMock.restore();
+      fetchMock.get('http://example.com/api/v1/people?page[size]=2&page[number]=1&filter[name]=Joe', {
+        data: [
+          { id: '1', type: 'people' },
+          { id: '2', type: 'people' }
+        ]
+      });
+      fetchMock.get('http://example.com/api/v1/people?page[size]=2&page[number]=2&filter[name]=Joe', {
+        data: [
+          { id: '3', type: 'people' }
+        ]
+      });
+    });
+
+    it('yields every record across pages', function() {
+      let iterator = Person.where({ name: 'Joe' }).per(2).each();
+      let ids = [];
+
+      let drain = function() {
+        return iterator.next().then((result) => {
+          if (result.done) return ids;
+          ids.push(result.value.id);
+          return drain();
+        });
+      }
+
+      return drain().then(() => {
+        expect(ids).to.deep.eq(['1', '2', '3']);
+        expect(fetchMock.calls().matched.length).to.eq(2);
+      });
+    });
+  });
+
+  describe('#findInBatches', function() {
+    describe('when the server sends pagination links', function() {
+      beforeEach(function() {
+        fetchMock.restore();
+        fetchMock.get('http://example.com/api/v1/people?page[number]=1&include=books', {
+          data: [{ id: '1', type: 'people' }],
+          links: { next: 'http://example.com/api/v1/people?page[cursor]=abc&include=books' }
+        });
+        fetchMock.get('http://example.com/api/v1/people?page[cursor]=abc&include=books', {
+          data: [{ id: '2', type: 'people' }],
+          links: { next: null }
+        });
+      });
+
+      it('follows links.next until exhausted', function() {
+        let iterator = Person.includes('books').findInBatches();
+        let pages = [];
+
+        let drain = function() {
+          return iterator.next().then((result) => {
+            if (result.done) return pages;
+            pages.push(result.value.data.map((p) => { return p.id; }));
+            return drain();
+          });
+        }
+
+        return drain().then(() => {
+          expect(pages).to.deep.eq([['1'], ['2']]);
+        });
+      });
+
+      it('follows link objects', function() {
+        fetchMock.restore();
+        fetchMock.get('http://example.com/api/v1/people?page[number]=1', {
+          data: [{ id: '1', type: 'people' }],
+          links: { next: { href: 'http://example.com/api/v1/people?page[cursor]=abc' } }
+        });
+        fetchMock.get('http://example.com/api/v1/people?page[cursor]=abc', {
+          data: [{ id: '2', type: 'people' }],
+          links: { next: null }
+        });
+
+        let iterator = Person.findInBatches();
+
+        return iterator.next().then(() => {
+          return iterator.next();
+        }).then((result) => {
+          expect(result.value.data[0].id).to.eq('2');
+          return iterator.next();
+        }).then((result) => {
+          expect(result.done).to.eq(true);
+        });
+      });
+    });
+
+    describe('when no per page size is given', function() {
+      beforeEach(function() {
+        fetchMock.restore();
+        fetchMock.get('http://example.com/api/v1/people?page[number]=1', {
+          data: [{ id: '1', type: 'people' }]
+        });
+        fetchMock.get('http://example.com/api/v1/people?page[number]=2', {
+          data: []
+        });
+      });
+
+      it('stops at the first empty page', function() {
+        let iterator = Person.findInBatches();
+
+        return iterator.next().then((result) => {
+          expect(result.done).to.eq(false);
+          return iterator.next();
+        }).then((result) => {
+          expect(result.done).to.eq(true);
+        });
+      });
+    });
+
+    describe('when a request fails', function() {
+      beforeEach(function() {
+        fetchMock.restore();
+        fetchMock.get('http://example.com/api/v1/people?page[number]=1', {
+          status: 500,
+          body: { errors: [] }
+        });
+      });
+
+      it('rejects, then reports itself as done', function() {
+        let iterator = Person.findInBatches();
+
+        return expect(iterator.next()).to.be.rejectedWith(ServerError, 'Server Error').then(() => {
+          return iterator.next().then((result) => {
+            expect(result.done).to.eq(true);
+          });
+        });
+      });
+    });
+  });
 });
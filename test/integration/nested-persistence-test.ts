@@ -317,6 +317,18 @@ describe('nested persistence', function() {
       });
     });
 
+    it('removes every has_many member marked for destruction', function() {
+      let other = new Book({ id: '11' });
+      other.isPersisted(true);
+      instance.books.push(other);
+      instance.books[0].isMarkedForDestruction(true);
+      other.isMarkedForDestruction(true);
+
+      return instance.save({ with: 'books' }).then(() => {
+        expect(instance.books.length).to.eq(0);
+      });
+    });
+
     it('removes the associated belongs_to data', function(done) {
       instance.books[0].genre.isMarkedForDestruction(true);
       instance.save({ with: { books: 'genre' } }).then((response) => {
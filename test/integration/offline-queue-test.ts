@@ -0,0 +1,406 @@
+import { expect, fetchMock } from '../test-helper';
+import { Config, ApplicationRecord, Person, Book, Genre } from '../fixtures';
+import { OfflineQueue, LocalStorageQueueStorage, attr, belongsTo } from '../../src/index';
+
+class Note extends ApplicationRecord {
+  static jsonapiType = 'offline_notes';
+  static writeFormat = 'atomic';
+
+  title: string = attr();
+  folder: any = belongsTo('offline_folders');
+}
+
+class Folder extends ApplicationRecord {
+  static jsonapiType = 'offline_folders';
+  static writeFormat = 'atomic';
+
+  name: string = attr();
+}
+
+let queue;
+
+const goOffline = function() {
+  fetchMock.restore();
+  fetchMock.mock('*', { throws: new TypeError('Network request failed') });
+}
+
+// Records POST/PUT/DELETE bodies in the order the server sees them
+const goOnline = function(requests: Array<any>, responses: Object = {}) {
+  let id = 99;
+  fetchMock.restore();
+  fetchMock.mock('*', function(url, options) {
+    let body = options.body ? JSON.parse(options.body) : null;
+    requests.push({ url, method: options.method, body });
+
+    let response = responses[`${options.method} ${url}`];
+    if (response) return response;
+
+    if (body && body['atomic:operations']) {
+      return {
+        'atomic:results': body['atomic:operations'].map((op) => {
+          return { data: Object.assign({}, op.data, { id: op.data.id || String(id++), lid: undefined }) };
+        })
+      };
+    } else if (body) {
+      body.data.id = body.data.id || '99';
+      return { data: body.data };
+    } else {
+      return { data: null };
+    }
+  });
+}
+
+describe('OfflineQueue', function() {
+  beforeEach(function() {
+    queue = new OfflineQueue();
+    Config.setup({ offlineQueue: queue });
+  });
+
+  afterEach(function() {
+    fetchMock.restore();
+    Config.setup();
+  });
+
+  it('is off by default', function() {
+    Config.setup();
+    expect(Config.offlineQueue).to.eq(null);
+  });
+
+  it('accepts true for an in-memory queue', function() {
+    Config.setup({ offlineQueue: true });
+    expect(Config.offlineQueue).to.be.instanceof(OfflineQueue);
+    expect(Config.offlineQueue.context).to.eq(Config);
+  });
+
+  describe('when a write fails to reach the server', function() {
+    it('queues it and resolves true', function() {
+      goOffline();
+      let person = new Person({ firstName: 'Joe' });
+
+      return person.save().then((success) => {
+        expect(success).to.eq(true);
+        expect(queue.size).to.eq(1);
+        expect(queue.isPending(person)).to.eq(true);
+        expect(queue.writes[0].method).to.eq('post');
+        expect(queue.writes[0].url).to.eq('http://example.com/api/v1/people');
+        expect(queue.writes[0].payload.data.attributes).to.deep.eq({ first_name: 'Joe' });
+        expect(person.isPersisted()).to.eq(false);
+      });
+    });
+
+    it('notifies subscribers of the pending count', function() {
+      goOffline();
+      let counts = [];
+      let unsubscribe = queue.subscribe((q) => { counts.push(q.size); });
+
+      return new Person({ firstName: 'Joe' }).save().then(() => {
+        return new Person({ firstName: 'Jane' }).save();
+      }).then(() => {
+        unsubscribe();
+        return new Person({ firstName: 'Jim' }).save();
+      }).then(() => {
+        expect(counts).to.deep.eq([1, 2]);
+      });
+    });
+  });
+
+  it('queues writes behind pending writes, even when online', function() {
+    goOffline();
+    let requests = [];
+
+    return new Person({ firstName: 'Joe' }).save().then(() => {
+      goOnline(requests);
+      return new Person({ firstName: 'Jane' }).save();
+    }).then((success) => {
+      expect(success).to.eq(true);
+      expect(requests.length).to.eq(0);
+      expect(queue.size).to.eq(2);
+    });
+  });
+
+  describe('#online', function() {
+    it('replays writes in order and resolves the records', function() {
+      goOffline();
+      let requests = [];
+      let joe = new Person({ firstName: 'Joe' });
+      let jane = new Person({ id: '2', firstName: 'Jane' });
+      jane.isPersisted(true);
+      jane.firstName = 'Janet';
+
+      return joe.save().then(() => {
+        return jane.save();
+      }).then(() => {
+        return jane.destroy();
+      }).then(() => {
+        goOnline(requests);
+        return queue.online();
+      }).then((result) => {
+        expect(result).to.deep.eq({ synced: 3, failed: [] });
+        expect(requests.map((r) => { return `${r.method} ${r.url}`; })).to.deep.eq([
+          'POST http://example.com/api/v1/people',
+          'PUT http://example.com/api/v1/people/2',
+          'DELETE http://example.com/api/v1/people/2'
+        ]);
+        expect(joe.id).to.eq('99');
+        expect(joe.isPersisted()).to.eq(true);
+        expect(jane.isPersisted()).to.eq(false);
+        expect(queue.size).to.eq(0);
+      });
+    });
+
+    it('stops at a network failure and keeps the rest queued', function() {
+      goOffline();
+
+      return new Person({ firstName: 'Joe' }).save().then(() => {
+        return queue.online();
+      }).then((result) => {
+        expect(result).to.deep.eq({ synced: 0, failed: [] });
+        expect(queue.size).to.eq(1);
+      });
+    });
+
+    it('points later writes at records created by earlier ones', function() {
+      goOffline();
+      let requests = [];
+      let genre = new Genre({ name: 'Horror' });
+      let book: any = new Book({ title: 'The Shining' });
+
+      return genre.save().then(() => {
+        book.genre = genre;
+        return book.save({ with: 'genre' });
+      }).then(() => {
+        goOnline(requests, {
+          'POST http://example.com/api/genres': {
+            data: { id: '10', type: 'genres', attributes: { name: 'Horror' } }
+          }
+        });
+        return queue.online();
+      }).then(() => {
+        let bookPayload = requests[1].body;
+        expect(bookPayload.data.relationships.genre.data).to.deep.eq({
+          type: 'genres', id: '10', method: 'update'
+        });
+        expect(bookPayload.included[0].id).to.eq('10');
+        expect(bookPayload.included[0]['temp-id']).to.eq(undefined);
+        expect(genre.id).to.eq('10');
+      });
+    });
+
+    it('drops writes the server rejects and reports them', function() {
+      goOffline();
+      let requests = [];
+      let person = new Person({ firstName: 'Joe' });
+
+      return person.save().then(() => {
+        goOnline(requests, {
+          'POST http://example.com/api/v1/people': {
+            status: 422,
+            body: {
+              errors: [{
+                code: 'unprocessable_entity',
+                status: '422',
+                title: 'Validation Error',
+                detail: 'First name is invalid',
+                source: { pointer: '/data/attributes/first_name' },
+                meta: { attribute: 'first_name', message: 'is invalid' }
+              }]
+            }
+          }
+        });
+        return queue.online();
+      }).then((result) => {
+        expect(result.synced).to.eq(0);
+        expect(result.failed.length).to.eq(1);
+        expect(result.failed[0].error.response.status).to.eq(422);
+        expect(person.errors.firstName[0].message).to.eq('is invalid');
+        expect(queue.size).to.eq(0);
+      });
+    });
+  });
+
+  describe('with atomic operations', function() {
+    const operationsUrl = 'POST http://example.com/api/operations';
+
+    it('queues the operations and replays them', function() {
+      goOffline();
+      let requests = [];
+      let note = new Note({ title: 'Offline' });
+
+      return note.save().then((success) => {
+        expect(success).to.eq(true);
+        expect(queue.writes[0].format).to.eq('atomic');
+        expect(queue.writes[0].payload['atomic:operations'][0].op).to.eq('add');
+
+        goOnline(requests, {
+          [operationsUrl]: {
+            'atomic:results': [{ data: { type: 'offline_notes', id: '7', attributes: { title: 'Offline' } } }]
+          }
+        });
+        return queue.online();
+      }).then((result) => {
+        expect(result.synced).to.eq(1);
+        expect(requests[0].body['atomic:operations'][0].data.lid).to.be.a('string');
+        expect(note.id).to.eq('7');
+        expect(note.isPersisted()).to.eq(true);
+      });
+    });
+
+    it('points later operations at records created by earlier ones', function() {
+      goOffline();
+      let requests = [];
+      let folder = new Folder({ name: 'Inbox' });
+      let note = new Note({ title: 'Offline', folder });
+
+      return folder.save().then(() => {
+        return note.save({ with: 'folder' });
+      }).then(() => {
+        goOnline(requests);
+        return queue.online();
+      }).then((result) => {
+        expect(result.synced).to.eq(2);
+
+        let operations = requests[1].body['atomic:operations'];
+        expect(operations[0]).to.deep.eq({ op: 'update', data: { type: 'offline_folders', id: '99', attributes: { name: 'Inbox' } } });
+        expect(operations[1].op).to.eq('add');
+        expect(operations[1].data.relationships.folder.data).to.deep.eq({ type: 'offline_folders', id: '99' });
+        expect(folder.id).to.eq('99');
+        expect(note.isPersisted()).to.eq(true);
+      });
+    });
+
+    it('assigns the errors of a rejected write by operation', function() {
+      goOffline();
+      let note = new Note({ title: 'Offline' });
+
+      return note.save().then(() => {
+        goOnline([], {
+          [operationsUrl]: {
+            status: 422,
+            body: {
+              errors: [{
+                code: 'unprocessable_entity',
+                detail: 'Title is taken',
+                source: { pointer: '/atomic:operations/0/data/attributes/title' },
+                meta: { attribute: 'title', message: 'is taken' }
+              }]
+            }
+          }
+        });
+        return queue.online();
+      }).then((result) => {
+        expect(result.failed.length).to.eq(1);
+        expect(note.errors['title'][0].message).to.eq('is taken');
+        expect(note.errors['base']).to.eq(undefined);
+      });
+    });
+  });
+
+  describe('coalescing', function() {
+    it('sends repeated saves of a new record as one create', function() {
+      goOffline();
+      let requests = [];
+      let person = new Person({ firstName: 'Joe' });
+
+      return person.save().then(() => {
+        person.firstName = 'Joseph';
+        return person.save();
+      }).then(() => {
+        expect(queue.size).to.eq(1);
+        goOnline(requests);
+        return queue.online();
+      }).then(() => {
+        expect(requests.length).to.eq(1);
+        expect(requests[0].body.data.attributes).to.deep.eq({ first_name: 'Joseph' });
+      });
+    });
+
+    it('sends a save made while the create is in flight as an update', function() {
+      goOffline();
+      let requests = [];
+      let joe = new Person({ firstName: 'Joe' });
+
+      return joe.save().then(() => {
+        goOnline(requests);
+        let replay = queue.online();
+        joe.firstName = 'Joseph';
+        return joe.save().then(() => { return replay; });
+      }).then((result) => {
+        expect(result.synced).to.eq(2);
+        expect(requests.map((r) => { return `${r.method} ${r.url}`; })).to.deep.eq([
+          'POST http://example.com/api/v1/people',
+          'PUT http://example.com/api/v1/people/99'
+        ]);
+        expect(requests[1].body.data.id).to.eq('99');
+        expect(requests[1].body.data['temp-id']).to.eq(undefined);
+        expect(joe.firstName).to.eq('Joseph');
+        expect(joe.isDirty()).to.eq(false);
+      });
+    });
+
+    it('drops a create when the record is destroyed before it is sent', function() {
+      goOffline();
+      let person = new Person({ firstName: 'Joe' });
+
+      return person.save().then(() => {
+        return person.destroy();
+      }).then(() => {
+        expect(queue.size).to.eq(0);
+      });
+    });
+  });
+
+  describe('LocalStorageQueueStorage', function() {
+    let storage;
+
+    beforeEach(function() {
+      let items = {};
+      storage = {
+        getItem: (key) => { return items[key] || null; },
+        setItem: (key, value) => { items[key] = value; }
+      };
+    });
+
+    it('sends new writes after the stored ones', function() {
+      let stored = { type: 'people', method: 'post', url: 'http://example.com/api/v1/people', payload: { data: { type: 'people', attributes: { first_name: 'Joe' } } } };
+      let slowStorage: any = {
+        load: () => { return new Promise((resolve) => { setTimeout(() => { resolve([stored]); }, 10); }); },
+        save: () => {}
+      };
+      let requests = [];
+      let restored = new OfflineQueue({ storage: slowStorage });
+      Config.setup({ offlineQueue: restored });
+      goOnline(requests);
+
+      expect(restored.isHolding()).to.eq(true);
+
+      return new Person({ firstName: 'Jane' }).save().then((success) => {
+        expect(success).to.eq(true);
+        expect(requests.length).to.eq(0);
+        expect(restored.size).to.eq(2);
+        return restored.online();
+      }).then(() => {
+        expect(requests.map((r) => { return r.body.data.attributes.first_name; })).to.deep.eq(['Joe', 'Jane']);
+      });
+    });
+
+    it('keeps writes across queues', function() {
+      goOffline();
+      Config.setup({ offlineQueue: new OfflineQueue({ storage: new LocalStorageQueueStorage('queue', storage) }) });
+
+      return new Person({ firstName: 'Joe' }).save().then(() => {
+        expect(JSON.parse(storage.getItem('queue')).length).to.eq(1);
+
+        let requests = [];
+        let restored = new OfflineQueue({ storage: new LocalStorageQueueStorage('queue', storage) });
+        Config.setup({ offlineQueue: restored });
+        goOnline(requests);
+
+        return restored.online().then((result) => {
+          expect(result.synced).to.eq(1);
+          expect(requests[0].body.data.attributes).to.deep.eq({ first_name: 'Joe' });
+          expect(JSON.parse(storage.getItem('queue'))).to.deep.eq([]);
+        });
+      });
+    });
+  });
+});
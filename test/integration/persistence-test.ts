@@ -1,5 +1,17 @@
 import { expect, fetchMock } from '../test-helper';
-import { Person, PersonWithExtraAttr } from '../fixtures';
+import { Config, Person, PersonWithExtraAttr } from '../fixtures';
+import { attr } from '../../src/index';
+
+class PersonWithBirthday extends Person {
+  static endpoint = '/v1/people_with_birthdays';
+  static jsonapiType = 'people_with_birthdays';
+
+  birthday: Date = attr({ type: 'date' });
+}
+class PatchedPerson extends Person {
+  static updateVerb = 'patch';
+}
+Config.setup();
 
 let fetchMock = require('fetch-mock');
 
@@ -10,11 +22,13 @@ after(function () {
 let instance;
 let payloads;
 let putPayloads;
+let patchPayloads;
 let deletePayloads;
 let serverResponse;
 beforeEach(function() {
   payloads = [];
   putPayloads = [];
+  patchPayloads = [];
   deletePayloads = [];
   instance = new Person();
   serverResponse = {
@@ -39,6 +53,11 @@ const resetMocks = function() {
     return serverResponse;
   });
 
+  fetchMock.patch('http://example.com/api/v1/people/1', function(url, payload) {
+    patchPayloads.push(JSON.parse(payload.body));
+    return serverResponse;
+  });
+
   fetchMock.delete('http://example.com/api/v1/people/1', function(url, payload) {
     deletePayloads.push({});
     return serverResponse;
@@ -93,6 +112,38 @@ describe('Model persistence', function() {
         });
       });
 
+      describe('when the model updates with PATCH', function() {
+        beforeEach(function() {
+          instance = new PatchedPerson({ id: '1' });
+          instance.isPersisted(true);
+        });
+
+        it('sends a PATCH request', function() {
+          instance.firstName = 'Joe';
+          return instance.save().then((bool) => {
+            expect(bool).to.eq(true);
+            expect(putPayloads.length).to.eq(0);
+            expect(patchPayloads[0]).to.deep.equal({
+              data: {
+                id: '1',
+                type: 'people',
+                attributes: {
+                  first_name: 'Joe',
+                }
+              }
+            });
+          });
+        });
+
+        it('still creates with POST', function() {
+          instance = new PatchedPerson({ firstName: 'Joe' });
+          return instance.save().then(() => {
+            expect(payloads.length).to.eq(1);
+            expect(patchPayloads.length).to.eq(0);
+          });
+        });
+      });
+
       describe('when no dirty attributes', function() {
         beforeEach(function() {
           instance.firstName = 'Joe';
@@ -114,6 +165,36 @@ describe('Model persistence', function() {
       })
     });
 
+    describe('when an attribute is typed', function() {
+      beforeEach(function() {
+        fetchMock.post('http://example.com/api/v1/people_with_birthdays', function(url, payload) {
+          payloads.push(JSON.parse(payload.body));
+          return {
+            data: {
+              id: '1',
+              type: 'people_with_birthdays',
+              attributes: { birthday: '1980-06-02' }
+            }
+          };
+        });
+      });
+
+      it('sends the serialized value', function() {
+        instance = new PersonWithBirthday({ birthday: new Date(1980, 5, 1) });
+        return instance.save().then(() => {
+          expect(payloads[0]['data']['attributes']).to.deep.eq({ birthday: '1980-06-01' });
+        });
+      });
+
+      it('coerces the server response', function() {
+        instance = new PersonWithBirthday({ birthday: new Date(1980, 5, 1) });
+        return instance.save().then(() => {
+          expect(instance.birthday.getDate()).to.eq(2);
+          expect(instance.isDirty()).to.eq(false);
+        });
+      });
+    });
+
     describe('when the model is not already persisted', function() {
       it('makes the correct HTTP call', function(done) {
         instance.firstName = 'Joe';
@@ -0,0 +1,164 @@
+import { expect, fetchMock } from '../test-helper';
+import { Config, ApplicationRecord } from '../fixtures';
+import { attr, hasMany, belongsTo } from '../../src/index';
+
+class Post extends ApplicationRecord {
+  static jsonapiType = 'posts';
+
+  title = attr();
+}
+
+class Video extends ApplicationRecord {
+  static jsonapiType = 'videos';
+
+  url = attr();
+}
+
+class Comment extends ApplicationRecord {
+  static jsonapiType = 'comments';
+
+  body = attr();
+  commentable: any = belongsTo({ polymorphic: true });
+}
+
+class Playlist extends ApplicationRecord {
+  static jsonapiType = 'playlists';
+
+  items: any = hasMany({ polymorphic: true });
+}
+Config.setup();
+
+describe('Polymorphic relationships', function() {
+  afterEach(function() {
+    fetchMock.restore();
+  });
+
+  describe('when deserializing', function() {
+    beforeEach(function() {
+      fetchMock.get('http://example.com/api/comments?include=commentable', {
+        data: [
+          {
+            id: '1',
+            type: 'comments',
+            relationships: { commentable: { data: { id: '10', type: 'posts' } } }
+          },
+          {
+            id: '2',
+            type: 'comments',
+            relationships: { commentable: { data: { id: '20', type: 'videos' } } }
+          }
+        ],
+        included: [
+          { id: '10', type: 'posts', attributes: { title: 'Hello' } },
+          { id: '20', type: 'videos', attributes: { url: 'http://example.com/v.mp4' } }
+        ]
+      });
+
+      fetchMock.get('http://example.com/api/playlists/1?include=items', {
+        data: {
+          id: '1',
+          type: 'playlists',
+          relationships: {
+            items: { data: [{ id: '10', type: 'posts' }, { id: '20', type: 'videos' }] }
+          }
+        },
+        included: [
+          { id: '10', type: 'posts', attributes: { title: 'Hello' } },
+          { id: '20', type: 'videos', attributes: { url: 'http://example.com/v.mp4' } }
+        ]
+      });
+    });
+
+    it('picks the class for each belongsTo from its type', function() {
+      return Comment.includes('commentable').all().then((proxy) => {
+        let data = <Array<Comment>>proxy.data;
+        expect(data[0].commentable).to.be.instanceof(Post);
+        expect(data[0].commentable.title).to.eq('Hello');
+        expect(data[1].commentable).to.be.instanceof(Video);
+        expect(data[1].commentable.url).to.eq('http://example.com/v.mp4');
+      });
+    });
+
+    it('picks the class for each hasMany record from its type', function() {
+      return Playlist.includes('items').find(1).then((proxy) => {
+        let data = <Playlist>proxy.data;
+        expect(data.items[0]).to.be.instanceof(Post);
+        expect(data.items[1]).to.be.instanceof(Video);
+      });
+    });
+
+    it('replaces an existing record of another type', function() {
+      let comment = new Comment({ id: '1' });
+      let post = new Post({ id: '10' });
+      comment.commentable = post;
+
+      comment.fromJsonapi({
+        id: '1',
+        type: 'comments',
+        relationships: { commentable: { data: { id: '20', type: 'videos' } } }
+      }, { data: null, included: [{ id: '20', type: 'videos', attributes: {} }] });
+
+      expect(comment.commentable).to.be.instanceof(Video);
+      expect(post.klass).to.eq(Post);
+    });
+  });
+
+  describe('assignment', function() {
+    it('accepts instances of any model', function() {
+      let comment = new Comment();
+      comment.commentable = new Video();
+      expect(comment.commentable).to.be.instanceof(Video);
+      comment.commentable = new Post();
+      expect(comment.commentable).to.be.instanceof(Post);
+    });
+
+    it('rejects plain objects, since the class is unknown', function() {
+      let comment = new Comment();
+      expect(() => { comment.commentable = { title: 'Hello' }; })
+        .to.throw('Polymorphic relationship "commentable" must be assigned Model instances');
+    });
+  });
+
+  describe('when saving', function() {
+    let payloads;
+
+    beforeEach(function() {
+      payloads = [];
+      fetchMock.post('http://example.com/api/playlists', function(url, options) {
+        payloads.push(JSON.parse(options.body));
+        return { data: { id: '1', type: 'playlists' } };
+      });
+    });
+
+    it('sends the type of each record', function() {
+      let post = new Post({ id: '10' });
+      post.isPersisted(true);
+      let video = new Video({ url: 'http://example.com/v.mp4' });
+      let playlist = new Playlist();
+      playlist.items = [post, video];
+
+      return playlist.save({ with: 'items' }).then(() => {
+        let items = payloads[0].data.relationships.items.data;
+        expect(items.length).to.eq(2);
+        expect(items).to.include.something.that.deep.eq({ type: 'posts', id: '10', method: 'update' });
+        expect(items).to.include.something.that.has.property('type', 'videos');
+        expect(payloads[0].included.map((i) => { return i.type; })).to.deep.eq(['posts', 'videos']);
+      });
+    });
+  });
+
+  describe('#relation()', function() {
+    it('follows the related link', function() {
+      let comment = new Comment({ id: '1' });
+      comment.relationshipLinks = { commentable: { related: 'http://example.com/api/comments/1/commentable' } };
+      expect(comment.relation('commentable').collectionUrl())
+        .to.eq('http://example.com/api/comments/1/commentable');
+    });
+
+    it('throws without a related link', function() {
+      let comment = new Comment({ id: '1' });
+      expect(() => { comment.relation('commentable'); })
+        .to.throw('Cannot load polymorphic "commentable" without a related link');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { expect, fetchMock } from '../test-helper';
+import { Config, ApplicationRecord, Author, Book, Genre } from '../fixtures';
+import { attr, hasMany, belongsTo } from '../../src/index';
+
+class Shelf extends ApplicationRecord {
+  static jsonapiType = 'bookshelves';
+
+  books = hasMany('books', { foreignKey: 'shelf_id' });
+  owner = belongsTo('authors');
+  ownerId = attr({ persist: false });
+}
+Config.setup();
+
+const authorPayload = {
+  data: {
+    id: '1',
+    type: 'authors',
+    attributes: { firstName: 'Stephen' },
+    relationships: {
+      books: {
+        links: { related: 'http://example.com/api/v1/authors/1/books' }
+      },
+      genre: {
+        links: { related: { href: 'http://example.com/api/v1/authors/1/genre?fields[genres]=name' } }
+      },
+      tags: {
+        meta: { count: 0 }
+      }
+    }
+  }
+};
+
+describe('Relation loading', function() {
+  let author;
+
+  beforeEach(function() {
+    fetchMock.get('http://example.com/api/v1/authors/1', authorPayload);
+    return Author.find(1).then(({ data }) => {
+      author = data;
+    });
+  });
+
+  afterEach(function() {
+    fetchMock.restore();
+  });
+
+  it('retains relationship links', function() {
+    expect(author.relationshipLinks).to.deep.eq({
+      books: authorPayload.data.relationships.books.links,
+      genre: authorPayload.data.relationships.genre.links
+    });
+    expect(author.books).to.deep.eq([]);
+  });
+
+  describe('#relation()', function() {
+    it('returns a scope for the related link', function() {
+      let scope = author.relation('books');
+      expect(scope.model).to.eq(Book);
+      expect(scope.collectionUrl()).to.eq('http://example.com/api/v1/authors/1/books');
+    });
+
+    it('can be chained', function() {
+      fetchMock.get('http://example.com/api/v1/authors/1/books?page[number]=2&filter[title]=Carrie&sort=-title', {
+        data: [{ id: '2', type: 'books', attributes: { title: 'Carrie' } }]
+      });
+
+      return author.relation('books').where({ title: 'Carrie' }).order({ title: 'desc' }).page(2).all().then(({ data }) => {
+        expect(data.map((b) => { return b.title; })).to.deep.eq(['Carrie']);
+      });
+    });
+
+    it('appends params to links that already have a query string', function() {
+      fetchMock.get('http://example.com/api/v1/authors/1/genre?fields[genres]=name&page[size]=1', {
+        data: { id: '1', type: 'genres', attributes: { name: 'Horror' } }
+      });
+
+      return author.relation('genre').first().then(({ data }) => {
+        expect(data.name).to.eq('Horror');
+      });
+    });
+
+    it('filters by the foreign key when there is no link', function() {
+      let scope = author.relation('tags');
+      expect(scope.collectionUrl()).to.eq('http://example.com/api/tags');
+      expect(scope.toQueryParams()).to.eq('filter[author_id]=1');
+    });
+
+    it('honors the foreignKey option', function() {
+      let shelf = new Shelf({ id: '5', ownerId: '1' });
+      expect(shelf.relation('books').toQueryParams()).to.eq('filter[shelf_id]=5');
+      expect(shelf.relation('owner').toQueryParams()).to.eq('filter[id]=1');
+    });
+
+    it('throws for unknown relationships', function() {
+      expect(() => { author.relation('firstName'); }).to.throw('Unknown relationship "firstName" for authors');
+    });
+
+    it('throws for a belongsTo without a link or foreign key', function() {
+      let shelf = new Shelf({ id: '5' });
+      expect(() => { shelf.relation('owner'); })
+        .to.throw('Cannot load "owner" without a related link or ownerId');
+    });
+  });
+
+  describe('#load()', function() {
+    beforeEach(function() {
+      fetchMock.get('http://example.com/api/v1/authors/1/books', {
+        data: [
+          { id: '1', type: 'books', attributes: { title: 'It' } },
+          { id: '2', type: 'books', attributes: { title: 'Carrie' } }
+        ]
+      });
+      fetchMock.get('http://example.com/api/v1/authors/1/genre?fields[genres]=name', {
+        data: { id: '1', type: 'genres', attributes: { name: 'Horror' } }
+      });
+    });
+
+    it('assigns and resolves to-many records', function() {
+      return author.load('books').then((books) => {
+        expect(books.map((b) => { return b.title; })).to.deep.eq(['It', 'Carrie']);
+        expect(author.books).to.eq(books);
+        expect(author.isDirty('books')).to.eq(false);
+      });
+    });
+
+    it('assigns and resolves a to-one record', function() {
+      return author.load('genre').then((genre) => {
+        expect(genre).to.be.instanceof(Genre);
+        expect(author.genre).to.eq(genre);
+        expect(author.isDirty('genre')).to.eq(false);
+      });
+    });
+
+    it('rejects for unknown relationships', function() {
+      return expect(author.load('nope')).to.be.rejectedWith('Unknown relationship "nope" for authors');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { expect, fetchMock } from '../test-helper';
+import { Person, Author, Book } from '../fixtures';
+
+after(function () {
+  fetchMock.restore();
+});
+
+describe('Model#reload()', function() {
+  let instance;
+
+  beforeEach(function() {
+    fetchMock.restore();
+    instance = new Person({ id: '1', firstName: 'John', lastName: 'Doe' });
+    instance.isPersisted(true);
+
+    fetchMock.get('http://example.com/api/v1/people/1', {
+      data: {
+        id: '1',
+        type: 'people',
+        attributes: { first_name: 'Jane', last_name: 'Doe' }
+      }
+    });
+  });
+
+  it('resolves to the same instance', function() {
+    return instance.reload().then((reloaded) => {
+      expect(reloaded).to.eq(instance);
+    });
+  });
+
+  it('assigns the server attributes', function() {
+    return instance.reload().then(() => {
+      expect(instance.firstName).to.eq('Jane');
+    });
+  });
+
+  it('discards local changes', function() {
+    instance.lastName = 'Smith';
+    return instance.reload().then(() => {
+      expect(instance.lastName).to.eq('Doe');
+      expect(instance.isDirty()).to.eq(false);
+    });
+  });
+
+  it('discards local changes to attributes the response leaves out', function() {
+    fetchMock.get('http://example.com/api/v1/people/1?fields[people]=first_name', {
+      data: { id: '1', type: 'people', attributes: { first_name: 'Jane' } }
+    });
+    instance.lastName = 'Smith';
+
+    return instance.reload({ select: { people: ['first_name'] } }).then(() => {
+      expect(instance.firstName).to.eq('Jane');
+      expect(instance.lastName).to.eq('Doe');
+      expect(instance.isDirty()).to.eq(false);
+    });
+  });
+
+  it('clears errors', function() {
+    instance.errors = { firstName: [{ attribute: 'firstName', message: 'is invalid', fullMessage: 'First name is invalid' }] };
+    return instance.reload().then(() => {
+      expect(instance.errors).to.deep.eq({});
+    });
+  });
+
+  describe('when passed includes and select', function() {
+    let author, keptBook, removedBook;
+
+    beforeEach(function() {
+      keptBook = new Book({ id: '1', title: 'Old title' });
+      keptBook.isPersisted(true);
+      removedBook = new Book({ id: '2' });
+      removedBook.isPersisted(true);
+      author = new Author({ id: '1', books: [keptBook, removedBook] });
+      author.isPersisted(true);
+
+      fetchMock.get('http://example.com/api/v1/authors/1?fields[books]=title&include=books', {
+        data: {
+          id: '1',
+          type: 'authors',
+          relationships: {
+            books: { data: [{ id: '1', type: 'books' }, { id: '3', type: 'books' }] }
+          }
+        },
+        included: [
+          { id: '1', type: 'books', attributes: { title: 'New title' } },
+          { id: '3', type: 'books', attributes: { title: 'Another' } }
+        ]
+      });
+    });
+
+    it('replaces the relationship with what the server returned', function() {
+      return author.reload({ includes: 'books', select: { books: ['title'] } }).then(() => {
+        expect(author.books.map((b) => { return b.id; })).to.deep.eq(['1', '3']);
+        expect(author.books[0]).to.eq(keptBook);
+        expect(keptBook.title).to.eq('New title');
+      });
+    });
+
+    it('clears destroy and disassociate marks on related records', function() {
+      keptBook.isMarkedForDestruction(true);
+      removedBook.isMarkedForDisassociation(true);
+
+      return author.reload({ includes: 'books', select: { books: ['title'] } }).then(() => {
+        expect(keptBook.isMarkedForDestruction()).to.eq(false);
+        expect(removedBook.isMarkedForDisassociation()).to.eq(false);
+      });
+    });
+
+    it('resets relationship tracking', function() {
+      return author.reload({ includes: 'books', select: { books: ['title'] } }).then(() => {
+        expect(author.isDirty('books')).to.eq(false);
+      });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { expect, fetchMock } from '../test-helper';
+import { Config, Author, Person } from '../fixtures';
+import { RequestAbortedError, RequestTimeoutError } from '../../src/index';
+
+// Responds after the given delay, so there is time to abort
+const mockSlowResponse = function(delay: number) {
+  fetchMock.restore();
+  fetchMock.mock('*', function() {
+    return new Promise((resolve) => {
+      setTimeout(() => {
+        resolve({ data: [] });
+      }, delay);
+    });
+  });
+}
+
+// Minimal stand-in for AbortController, which not every runtime has
+class FakeAbortController {
+  signal = {
+    aborted: false,
+    listeners: [],
+    addEventListener(type, fn) { this.listeners.push(fn); },
+    removeEventListener(type, fn) {
+      this.listeners = this.listeners.filter((l) => { return l !== fn; });
+    }
+  };
+
+  abort() {
+    this.signal.aborted = true;
+    this.signal.listeners.forEach((fn) => { fn(); });
+  }
+}
+
+describe('Request cancellation', function() {
+  afterEach(function() {
+    fetchMock.restore();
+    Config.timeout = 0;
+  });
+
+  describe('with an AbortSignal', function() {
+    beforeEach(function() {
+      mockSlowResponse(50);
+    });
+
+    it('rejects with RequestAbortedError when aborted', function() {
+      let controller = new FakeAbortController();
+      let promise = Author.all({ signal: controller.signal });
+      controller.abort();
+
+      return expect(promise).to.be.rejectedWith(RequestAbortedError).then((e) => {
+        expect(e.url).to.eq('http://example.com/api/v1/authors');
+        expect(e.message).to.eq('Request aborted');
+      });
+    });
+
+    it('rejects immediately when already aborted', function() {
+      let controller = new FakeAbortController();
+      controller.abort();
+      return expect(Author.find(1, { signal: controller.signal })).to.be.rejectedWith(RequestAbortedError);
+    });
+
+    it('resolves normally when not aborted', function() {
+      let controller = new FakeAbortController();
+      return Author.all({ signal: controller.signal }).then((result) => {
+        expect(result.data).to.deep.eq([]);
+        expect(controller.signal.listeners.length).to.eq(0);
+      });
+    });
+
+    it('applies to counts', function() {
+      let controller = new FakeAbortController();
+      let promise = Author.count({ signal: controller.signal });
+      controller.abort();
+      return expect(promise).to.be.rejectedWith(RequestAbortedError);
+    });
+
+    it('applies to writes', function() {
+      let controller = new FakeAbortController();
+      let author = new Author({ id: '1' });
+      author.isPersisted(true);
+      let promise = author.destroy({ signal: controller.signal });
+      controller.abort();
+      return expect(promise).to.be.rejectedWith(RequestAbortedError);
+    });
+  });
+
+  describe('with a timeout', function() {
+    beforeEach(function() {
+      mockSlowResponse(50);
+    });
+
+    it('rejects with RequestTimeoutError using Config.timeout', function() {
+      Config.timeout = 10;
+      return expect(Author.all()).to.be.rejectedWith(RequestTimeoutError).then((e) => {
+        expect(e.timeout).to.eq(10);
+      });
+    });
+
+    it('prefers the model timeout', function() {
+      Config.timeout = 1000;
+      Person.timeout = 10;
+      return expect(Person.all()).to.be.rejectedWith(RequestTimeoutError).then((e) => {
+        Person.timeout = undefined;
+        expect(e.timeout).to.eq(10);
+      });
+    });
+
+    it('prefers a per-request timeout', function() {
+      Config.timeout = 10;
+      return Author.all({ timeout: 1000 }).then((result) => {
+        expect(result.data).to.deep.eq([]);
+      });
+    });
+
+    it('applies to saves', function() {
+      let author = new Author({ firstName: 'Stephen' });
+      return expect(author.save({ timeout: 10 })).to.be.rejectedWith(RequestTimeoutError);
+    });
+  });
+});
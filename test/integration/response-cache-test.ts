@@ -0,0 +1,188 @@
+import { expect, fetchMock } from '../test-helper';
+import { Config, Person, Author } from '../fixtures';
+import { ResponseCache, MemoryCacheStore } from '../../src/index';
+
+let requests;
+let etag;
+let firstName;
+let notModified;
+
+const mockPeople = function() {
+  fetchMock.restore();
+  fetchMock.get('begin:http://example.com/api/v1/people', function(url, options) {
+    requests.push({ url, ifNoneMatch: options.headers['If-None-Match'] });
+
+    if (notModified || etag && options.headers['If-None-Match'] === etag) {
+      notModified = false;
+      return { status: 304 };
+    }
+
+    return {
+      body: { data: [{ id: '1', type: 'people', attributes: { first_name: firstName } }] },
+      headers: etag ? { ETag: etag } : {}
+    };
+  });
+  fetchMock.put('http://example.com/api/v1/people/1', {
+    data: { id: '1', type: 'people', attributes: { first_name: 'Jane' } }
+  });
+  fetchMock.get('http://example.com/api/v1/authors', { data: [] });
+}
+
+const wait = function(ms: number) {
+  return new Promise((resolve) => { setTimeout(resolve, ms); });
+}
+
+describe('Response caching', function() {
+  beforeEach(function() {
+    requests = [];
+    etag = null;
+    firstName = 'Joe';
+    notModified = false;
+    Config.setup({ responseCache: true });
+    mockPeople();
+  });
+
+  afterEach(function() {
+    fetchMock.restore();
+    Config.setup();
+  });
+
+  it('does not cache scopes that have not opted in', function() {
+    return Person.all().then(() => {
+      return Person.all();
+    }).then(() => {
+      expect(requests.length).to.eq(2);
+    });
+  });
+
+  it('serves fresh responses without a request', function() {
+    return Person.cache().all().then(() => {
+      firstName = 'Changed';
+      return Person.cache().all();
+    }).then((people) => {
+      expect(requests.length).to.eq(1);
+      expect(people.data[0]['firstName']).to.eq('Joe');
+    });
+  });
+
+  it('keys responses by the full url', function() {
+    return Person.cache().all().then(() => {
+      return Person.cache().where({ first_name: 'Joe' }).all();
+    }).then(() => {
+      expect(requests.map((r) => { return r.url; })).to.deep.eq([
+        'http://example.com/api/v1/people',
+        'http://example.com/api/v1/people?filter[first_name]=Joe'
+      ]);
+    });
+  });
+
+  it('requests again once the ttl has passed', function() {
+    return Person.cache({ ttl: 0 }).all().then(() => {
+      firstName = 'Changed';
+      return Person.cache({ ttl: 0 }).all();
+    }).then((people) => {
+      expect(requests.length).to.eq(2);
+      expect(people.data[0]['firstName']).to.eq('Changed');
+    });
+  });
+
+  it('hands out copies, so callers cannot change the cached response', function() {
+    return Person.cache().first().then(() => {
+      return Person.cache().first();
+    }).then((person) => {
+      expect(person.data['firstName']).to.eq('Joe');
+    });
+  });
+
+  describe('stale-while-revalidate', function() {
+    it('serves the stale response and refreshes it in the background', function() {
+      let scope = Person.cache({ ttl: 0, staleWhileRevalidate: 60000 });
+
+      return scope.all().then(() => {
+        firstName = 'Changed';
+        return scope.all();
+      }).then((people) => {
+        expect(people.data[0]['firstName']).to.eq('Joe');
+        return wait(10);
+      }).then(() => {
+        return scope.all();
+      }).then((people) => {
+        expect(people.data[0]['firstName']).to.eq('Changed');
+        expect(requests.length).to.eq(3);
+      });
+    });
+  });
+
+  describe('ETags', function() {
+    it('revalidates with If-None-Match and reuses the response on 304', function() {
+      etag = '"v1"';
+
+      return Person.cache({ ttl: 0 }).all().then(() => {
+        return Person.cache({ ttl: 0 }).all();
+      }).then((people) => {
+        expect(requests[0].ifNoneMatch).to.eq(undefined);
+        expect(requests[1].ifNoneMatch).to.eq('"v1"');
+        expect(people.data[0]['firstName']).to.eq('Joe');
+      });
+    });
+
+    it('refetches when a 304 arrives with nothing cached', function() {
+      notModified = true;
+
+      return Person.cache().all().then((people) => {
+        expect(requests.length).to.eq(2);
+        expect(requests[1].ifNoneMatch).to.eq(undefined);
+        expect(people.data[0]['firstName']).to.eq('Joe');
+      });
+    });
+  });
+
+  describe('invalidation', function() {
+    it('drops responses for the type when a save succeeds', function() {
+      return Author.cache().all().then(() => {
+        return Person.cache().all();
+      }).then((people) => {
+        let person = <Person>people.data[0];
+        person.firstName = 'Jane';
+        return person.save();
+      }).then(() => {
+        return Person.cache().all();
+      }).then(() => {
+        return Author.cache().all();
+      }).then(() => {
+        expect(requests.length).to.eq(2);
+        expect(fetchMock.calls('http://example.com/api/v1/authors').length).to.eq(1);
+      });
+    });
+
+    it('drops responses for the type when a destroy succeeds', function() {
+      fetchMock.delete('http://example.com/api/v1/people/1', { data: null });
+
+      return Person.cache().all().then((people) => {
+        return people.data[0].destroy();
+      }).then(() => {
+        return Person.cache().all();
+      }).then(() => {
+        expect(requests.length).to.eq(2);
+      });
+    });
+  });
+
+  describe('stores', function() {
+    it('uses the given store', function() {
+      let store = new MemoryCacheStore();
+      Config.setup({ responseCache: new ResponseCache({ store, ttl: 1000 }) });
+
+      return Person.cache().all().then(() => {
+        expect(store.keys()).to.deep.eq(['http://example.com/api/v1/people']);
+        expect(store.get('http://example.com/api/v1/people')['type']).to.eq('people');
+      });
+    });
+  });
+
+  it('rejects when the context has no responseCache', function() {
+    Config.setup();
+
+    return expect(Person.cache().all()).to.be.rejectedWith(Error, 'requires a responseCache');
+  });
+});
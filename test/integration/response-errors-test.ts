@@ -0,0 +1,120 @@
+import { expect, fetchMock } from '../test-helper';
+import { Author } from '../fixtures';
+import {
+  ResponseError,
+  NetworkError,
+  InvalidJSONError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+  ServerError
+} from '../../src/index';
+
+const errorsPayload = {
+  errors: [{ status: '404', title: 'Not Found', detail: 'Could not find author 99' }]
+};
+
+describe('Response errors', function() {
+  afterEach(function() {
+    fetchMock.restore();
+  });
+
+  it('are all ResponseErrors', function() {
+    [NetworkError, InvalidJSONError, UnauthorizedError, ForbiddenError, NotFoundError, ConflictError, ServerError].forEach((errorClass) => {
+      expect(errorClass.prototype).to.be.instanceof(ResponseError);
+      expect(errorClass.prototype).to.be.instanceof(Error);
+    });
+  });
+
+  describe('when the record is not found', function() {
+    beforeEach(function() {
+      fetchMock.get('http://example.com/api/v1/authors/99', { status: 404, body: errorsPayload });
+    });
+
+    it('rejects with NotFoundError', function() {
+      return expect(Author.find(99)).to.be.rejectedWith(NotFoundError).then((e) => {
+        expect(e.message).to.eq('Not Found');
+        expect(e.response.status).to.eq(404);
+        expect(e.url).to.eq('http://example.com/api/v1/authors/99');
+        expect(e.method).to.eq('GET');
+        expect(e.errors).to.deep.eq(errorsPayload.errors);
+      });
+    });
+  });
+
+  let statuses = [
+    [401, UnauthorizedError],
+    [403, ForbiddenError],
+    [409, ConflictError],
+    [500, ServerError],
+    [503, ServerError]
+  ];
+
+  statuses.forEach(([status, errorClass]) => {
+    describe(`on a ${status} response`, function() {
+      beforeEach(function() {
+        fetchMock.mock('*', { status, body: { errors: [] } });
+      });
+
+      it(`rejects reads with ${(<any>errorClass).name}`, function() {
+        return expect(Author.all()).to.be.rejectedWith(errorClass);
+      });
+
+      it(`rejects writes with ${(<any>errorClass).name}`, function() {
+        let author = new Author({ firstName: 'Stephen' });
+        return expect(author.save()).to.be.rejectedWith(errorClass).then((e) => {
+          expect(e.method).to.eq('POST');
+          expect(e.url).to.eq('http://example.com/api/v1/authors');
+        });
+      });
+    });
+  });
+
+  describe('when the status is an error even though data is present', function() {
+    beforeEach(function() {
+      fetchMock.mock('*', { status: 409, body: { data: [] } });
+    });
+
+    it('still rejects', function() {
+      return expect(Author.all()).to.be.rejectedWith(ConflictError).then((e) => {
+        expect(e.errors).to.deep.eq([]);
+      });
+    });
+  });
+
+  describe('when the body is not JSON', function() {
+    it('rejects with InvalidJSONError', function() {
+      fetchMock.mock('*', { status: 200, body: 'not json', sendAsJson: false });
+      return expect(Author.all()).to.be.rejectedWith(InvalidJSONError).then((e) => {
+        expect(e.originalError.message).to.contain('invalid json');
+      });
+    });
+
+    it('prefers the status error', function() {
+      fetchMock.mock('*', { status: 502, body: '<html>', sendAsJson: false });
+      return expect(Author.all()).to.be.rejectedWith(ServerError).then((e) => {
+        expect(e.originalError.message).to.contain('invalid json');
+      });
+    });
+  });
+
+  describe('when the document has no data', function() {
+    it('rejects with InvalidJSONError', function() {
+      fetchMock.mock('*', { status: 200, body: { meta: {} } });
+      return expect(Author.all()).to.be.rejectedWith(InvalidJSONError);
+    });
+  });
+
+  describe('when the network fails', function() {
+    it('rejects with NetworkError', function() {
+      fetchMock.mock('*', { throws: new TypeError('Network request failed') });
+      return expect(Author.all()).to.be.rejectedWith(NetworkError).then((e) => {
+        expect(e.response).to.eq(null);
+        expect(e.message).to.eq('Network request failed');
+        expect(e.url).to.eq('http://example.com/api/v1/authors');
+        expect(e.originalError).to.be.instanceof(TypeError);
+      });
+    });
+  });
+});
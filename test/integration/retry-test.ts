@@ -0,0 +1,96 @@
+import { expect, fetchMock } from '../test-helper';
+import { Config, Author } from '../fixtures';
+import { ServerError } from '../../src/index';
+
+let attempts;
+
+// Fails with the given responses, in order, then succeeds
+const mockFailures = function(failures: Array<any>) {
+  fetchMock.restore();
+  fetchMock.mock('*', function() {
+    let failure = failures[attempts.length];
+    attempts.push(failure || 'success');
+
+    if (failure === 'network') {
+      return { throws: new TypeError('Network request failed') };
+    } else if (failure) {
+      return failure;
+    } else {
+      return { data: [] };
+    }
+  });
+}
+
+describe('Request retries', function() {
+  let middlewareAttempts;
+
+  beforeEach(function() {
+    attempts = [];
+    middlewareAttempts = [];
+    Config.retry = { maxAttempts: 3, baseDelay: 1 };
+    Config.beforeFetch.push(function(url, options, attempt) {
+      middlewareAttempts.push(attempt);
+    });
+  });
+
+  afterEach(function() {
+    fetchMock.restore();
+    Config.retry = {};
+    Config.beforeFetch = [];
+  });
+
+  it('retries retryable statuses until success', function() {
+    mockFailures([{ status: 503, body: { errors: [] } }, { status: 429, body: { errors: [] } }]);
+    return Author.all().then((result) => {
+      expect(result.data).to.deep.eq([]);
+      expect(attempts.length).to.eq(3);
+    });
+  });
+
+  it('retries network errors', function() {
+    mockFailures(['network']);
+    return Author.all().then(() => {
+      expect(attempts.length).to.eq(2);
+    });
+  });
+
+  it('passes the attempt number to beforeFetch middleware', function() {
+    mockFailures(['network', 'network']);
+    return Author.all().then(() => {
+      expect(middlewareAttempts).to.deep.eq([1, 2, 3]);
+    });
+  });
+
+  it('rejects once out of attempts', function() {
+    mockFailures([{ status: 502, body: {} }, { status: 502, body: {} }, { status: 502, body: {} }]);
+    return expect(Author.all()).to.be.rejectedWith(ServerError).then((e) => {
+      expect(e.response.status).to.eq(502);
+      expect(attempts.length).to.eq(3);
+    });
+  });
+
+  it('does not retry other statuses', function() {
+    mockFailures([{ status: 500, body: { errors: [] } }]);
+    return expect(Author.all()).to.be.rejectedWith(ServerError).then(() => {
+      expect(attempts.length).to.eq(1);
+    });
+  });
+
+  describe('writes', function() {
+    it('are not retried by default', function() {
+      mockFailures([{ status: 503, body: { errors: [] } }]);
+      let author = new Author({ firstName: 'Stephen' });
+      return expect(author.save()).to.be.rejectedWith(ServerError).then(() => {
+        expect(attempts.length).to.eq(1);
+      });
+    });
+
+    it('can opt in per request', function() {
+      mockFailures([{ status: 503, body: { errors: [] } }]);
+      let author = new Author({ firstName: 'Stephen' });
+      return author.save({ retry: { methods: ['POST'] } }).then(() => {
+        expect(attempts.length).to.eq(2);
+      });
+    });
+  });
+});
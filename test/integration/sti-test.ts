@@ -0,0 +1,98 @@
+import { expect, fetchMock } from '../test-helper';
+import { Config, ApplicationRecord } from '../fixtures';
+import { attr, hasMany, belongsTo } from '../../src/index';
+
+class Employee extends ApplicationRecord {
+  static jsonapiType = 'employees';
+
+  static resolveClassFor(resource) {
+    let attributes = resource.attributes || {};
+    return attributes.kind === 'manager' ? Manager : this;
+  }
+
+  name = attr();
+  kind = attr();
+}
+
+class Manager extends Employee {
+  reports: any = hasMany('employees');
+}
+
+class Department extends ApplicationRecord {
+  static jsonapiType = 'departments';
+
+  employees: any = hasMany();
+  head: any = belongsTo('employees');
+}
+Config.setup();
+
+const employees = [
+  { id: '1', type: 'employees', attributes: { name: 'Ann', kind: 'manager' } },
+  { id: '2', type: 'employees', attributes: { name: 'Bob', kind: 'engineer' } }
+];
+
+describe('Subclass resolution', function() {
+  afterEach(function() {
+    fetchMock.restore();
+  });
+
+  it('maps the jsonapiType to the topmost class', function() {
+    expect(Config.modelForType('employees')).to.eq(Employee);
+  });
+
+  it('resolves each record of a collection', function() {
+    fetchMock.get('http://example.com/api/employees', { data: employees });
+
+    return Employee.all().then(({ data }) => {
+      expect(data[0]).to.be.instanceof(Manager);
+      expect(data[0].klass).to.eq(Manager);
+      expect(data[1]).to.be.instanceof(Employee);
+      expect(data[1]).not.to.be.instanceof(Manager);
+    });
+  });
+
+  it('resolves a single record', function() {
+    fetchMock.get('http://example.com/api/employees/1', { data: employees[0] });
+
+    return Employee.find(1).then(({ data }) => {
+      expect(data).to.be.instanceof(Manager);
+    });
+  });
+
+  it('resolves included records', function() {
+    fetchMock.get('http://example.com/api/departments/1?include=employees,head', {
+      data: {
+        id: '1',
+        type: 'departments',
+        relationships: {
+          employees: { data: [{ id: '1', type: 'employees' }, { id: '2', type: 'employees' }] },
+          head: { data: { id: '1', type: 'employees' } }
+        }
+      },
+      included: employees
+    });
+
+    return Department.includes(['employees', 'head']).find(1).then(({ data }) => {
+      let department = <Department>data;
+      expect(department.employees[0]).to.be.instanceof(Manager);
+      expect(department.employees[1]).not.to.be.instanceof(Manager);
+      expect(department.head).to.eq(department.employees[0]);
+    });
+  });
+
+  it('passes the resource without attributes when it was not included', function() {
+    fetchMock.get('http://example.com/api/departments/1', {
+      data: {
+        id: '1',
+        type: 'departments',
+        relationships: { head: { data: { id: '1', type: 'employees' } } }
+      }
+    });
+
+    return Department.find(1).then(({ data }) => {
+      let department = <Department>data;
+      expect(department.head).to.be.instanceof(Employee);
+      expect(department.head).not.to.be.instanceof(Manager);
+    });
+  });
+});
@@ -1,7 +1,40 @@
 import { expect, sinon, fetchMock } from '../test-helper';
-import { Author, Book, Genre } from '../fixtures';
+import { Config, ApplicationRecord, Author, Book, Genre } from '../fixtures';
+import { attr, hasMany, belongsTo } from '../../src/index';
 import tempId from '../../src/util/temp-id';
 
+class Publisher extends ApplicationRecord {
+  static jsonapiType = 'publishers';
+
+  name = attr({ validates: { presence: true, length: { maximum: 10 } } });
+  code = attr({ validates: { format: { with: /^[A-Z]+$/, message: 'must be uppercase' } } });
+  founded = attr({ validates: { numericality: { onlyInteger: true, greaterThan: 1800 } } });
+  country = attr({ validates: { inclusion: ['US', 'UK'] } });
+  slogan = attr({ validates: {
+    notShouting: (value) => { if (value && value === value.toUpperCase()) return 'is too loud'; }
+  } });
+
+  imprints = hasMany('imprints');
+}
+
+class Imprint extends ApplicationRecord {
+  static jsonapiType = 'imprints';
+
+  name = attr({ validates: { presence: true } });
+
+  publisher = belongsTo('publishers');
+}
+Config.setup();
+
+// { attribute: [messages] }, for comparing just the messages
+const messages = function(errors: Object) : Object {
+  let result = {};
+  Object.keys(errors).forEach((key) => {
+    result[key] = errors[key].map((e) => { return e.message; });
+  });
+  return result;
+}
+
 const resetMocks = function() {
   fetchMock.restore();
 
@@ -115,14 +148,115 @@ describe('validations', function() {
     instance.save({ with: { books: 'genre' }}).then((success) => {
       expect(instance.isPersisted()).to.eq(false);
       expect(success).to.eq(false);
-      expect(instance.errors).to.deep.equal({
-        firstName: 'cannot be blank',
-        lastName: 'cannot be blank'
+      expect(messages(instance.errors)).to.deep.equal({
+        firstName: ['cannot be blank'],
+        lastName: ['cannot be blank']
       });
       done();
     });
   });
 
+  it('keeps the structured error objects', function() {
+    return instance.save({ with: { books: 'genre' }}).then(() => {
+      expect(instance.errors.firstName).to.deep.equal([{
+        attribute: 'firstName',
+        message: 'cannot be blank',
+        fullMessage: 'First name cannot be blank',
+        code: 'unprocessable_entity',
+        title: 'Validation Error',
+        detail: 'First Name cannot be blank',
+        source: undefined,
+        meta: { attribute: 'first_name', message: 'cannot be blank' }
+      }]);
+    });
+  });
+
+  it('provides full messages', function() {
+    return instance.save({ with: { books: 'genre' }}).then(() => {
+      expect(instance.fullMessages()).to.deep.equal([
+        'First name cannot be blank',
+        'Last name cannot be blank'
+      ]);
+      expect(instance.fullMessagesFor('lastName')).to.deep.equal(['Last name cannot be blank']);
+      expect(instance.fullMessagesFor('title')).to.deep.equal([]);
+      expect(instance.books[0].genre.fullMessages()).to.deep.equal([
+        'Name cannot be blank',
+        'some error'
+      ]);
+    });
+  });
+
+  describe('when an attribute has several errors', function() {
+    beforeEach(function() {
+      fetchMock.restore();
+      fetchMock.mock('*', {
+        status: 422,
+        body: {
+          errors: [
+            { code: 'blank', meta: { attribute: 'first_name', message: 'cannot be blank' } },
+            { code: 'too_short', meta: { attribute: 'first_name', message: 'is too short' } },
+            { code: 'locked', detail: 'Authors cannot be edited right now' }
+          ]
+        }
+      });
+    });
+
+    it('keeps them all', function() {
+      return instance.save().then(() => {
+        expect(messages(instance.errors)).to.deep.equal({
+          firstName: ['cannot be blank', 'is too short'],
+          base: ['Authors cannot be edited right now']
+        });
+        expect(instance.errors.firstName.map((e) => { return e.code; }))
+          .to.deep.equal(['blank', 'too_short']);
+        expect(instance.fullMessages()).to.deep.equal([
+          'First name cannot be blank',
+          'First name is too short',
+          'Authors cannot be edited right now'
+        ]);
+      });
+    });
+  });
+
+  describe('when errors have a source.pointer', function() {
+    beforeEach(function() {
+      fetchMock.restore();
+      fetchMock.mock('*', {
+        status: 422,
+        body: {
+          errors: [
+            { detail: 'First name is reserved', source: { pointer: '/data/attributes/first_name' } },
+            { detail: 'Title is taken', source: { pointer: '/data/relationships/books/data/0/attributes/title' } },
+            {
+              detail: 'Genre is retired',
+              source: { pointer: '/data/relationships/books/data/0/relationships/genre/data/attributes/name' }
+            },
+            { detail: 'Too many books', source: { pointer: '/data/relationships/books' } },
+            { detail: 'Something went wrong', source: { pointer: '/data' } }
+          ]
+        }
+      });
+    });
+
+    it('applies them to the pointed-to record and attribute', function() {
+      return instance.save({ with: { books: 'genre' }}).then((success) => {
+        expect(success).to.eq(false);
+        expect(messages(instance.errors)).to.deep.equal({
+          firstName: ['First name is reserved'],
+          books: ['Too many books'],
+          base: ['Something went wrong']
+        });
+        expect(messages(instance.books[0].errors)).to.deep.equal({
+          title: ['Title is taken']
+        });
+        expect(messages(instance.books[0].genre.errors)).to.deep.equal({
+          name: ['Genre is retired']
+        });
+        expect(instance.fullMessagesFor('firstName')).to.deep.equal(['First name is reserved']);
+      });
+    });
+  });
+
   describe('when camelizeKeys is false', function() {
     beforeEach(function() {
       instance.klass.camelizeKeys = false
@@ -133,10 +267,10 @@ describe('validations', function() {
     });
 
     it('does not camelize the error keys', function() {
-      instance.save({ with: { books: 'genre' }}).then((success) => {
-        expect(instance.errors).to.deep.equal({
-          first_name: 'cannot be blank',
-          last_name: 'cannot be blank'
+      return instance.save({ with: { books: 'genre' }}).then((success) => {
+        expect(messages(instance.errors)).to.deep.equal({
+          first_name: ['cannot be blank'],
+          last_name: ['cannot be blank']
         });
       });
     });
@@ -185,8 +319,8 @@ describe('validations', function() {
     instance.save({ with: { books: 'genre' }}).then((success) => {
       expect(instance.isPersisted()).to.eq(false);
       expect(success).to.eq(false);
-      expect(instance.books[0].errors).to.deep.equal({
-        title: 'cannot be blank',
+      expect(messages(instance.books[0].errors)).to.deep.equal({
+        title: ['cannot be blank'],
       });
       done();
     });
@@ -198,11 +332,130 @@ describe('validations', function() {
       expect(success).to.eq(false);
 
       // note we're validating multiple properties
-      expect(instance.books[0].genre.errors).to.deep.equal({
-        name: 'cannot be blank',
-        base: 'some error'
+      expect(messages(instance.books[0].genre.errors)).to.deep.equal({
+        name: ['cannot be blank'],
+        base: ['some error']
       });
       done();
     });
   });
 });
+
+describe('client-side validations', function() {
+  let publisher;
+
+  beforeEach(function() {
+    fetchMock.restore();
+    fetchMock.post('http://example.com/api/publishers', {
+      data: { id: '1', type: 'publishers' }
+    });
+    publisher = new Publisher({ name: 'Penguin', code: 'PNG', founded: 1935, country: 'UK' });
+  });
+
+  it('is valid when all validations pass', function() {
+    expect(publisher.isValid()).to.eq(true);
+    expect(publisher.errors).to.deep.eq({});
+  });
+
+  it('populates errors for each invalid attribute', function() {
+    publisher.name = '  ';
+    publisher.code = 'png';
+    publisher.founded = 1700.5;
+    publisher.country = 'FR';
+    publisher.slogan = 'BOOKS';
+
+    expect(publisher.validate()).to.eq(false);
+    expect(messages(publisher.errors)).to.deep.eq({
+      name: ["can't be blank"],
+      code: ['must be uppercase'],
+      founded: ['must be an integer'],
+      country: ['is not included in the list'],
+      slogan: ['is too loud']
+    });
+  });
+
+  it('populates structured errors and full messages', function() {
+    publisher.name = null;
+    publisher.validate();
+    expect(publisher.errors).to.deep.eq({
+      name: [{
+        attribute: 'name',
+        code: 'presence',
+        message: "can't be blank",
+        fullMessage: "Name can't be blank"
+      }]
+    });
+    expect(publisher.fullMessages()).to.deep.eq(["Name can't be blank"]);
+  });
+
+  it('reports the first failing validation per attribute', function() {
+    publisher.name = 'Penguin Random House';
+    publisher.founded = 1700;
+    publisher.validate();
+    expect(messages(publisher.errors)).to.deep.eq({
+      name: ['is too long (maximum is 10 characters)'],
+      founded: ['must be greater than 1800']
+    });
+  });
+
+  it('skips validations other than presence for blank values', function() {
+    publisher.code = null;
+    publisher.founded = undefined;
+    expect(publisher.isValid()).to.eq(true);
+  });
+
+  it('clears errors once valid again', function() {
+    publisher.name = null;
+    publisher.validate();
+    publisher.name = 'Penguin';
+    publisher.validate();
+    expect(publisher.errors).to.deep.eq({});
+  });
+
+  describe('on save', function() {
+    it('resolves false without sending a request', function() {
+      publisher.name = null;
+      return publisher.save().then((success) => {
+        expect(success).to.eq(false);
+        expect(fetchMock.called()).to.eq(false);
+        expect(messages(publisher.errors)).to.deep.eq({ name: ["can't be blank"] });
+      });
+    });
+
+    it('sends the request when valid', function() {
+      return publisher.save().then((success) => {
+        expect(success).to.eq(true);
+        expect(fetchMock.called()).to.eq(true);
+      });
+    });
+
+    describe('with nested records', function() {
+      let imprint;
+
+      beforeEach(function() {
+        imprint = new Imprint();
+        publisher.imprints = [imprint];
+      });
+
+      it('assigns errors to the nested instance', function() {
+        return publisher.save({ with: 'imprints' }).then((success) => {
+          expect(success).to.eq(false);
+          expect(fetchMock.called()).to.eq(false);
+          expect(publisher.errors).to.deep.eq({});
+          expect(messages(imprint.errors)).to.deep.eq({ name: ["can't be blank"] });
+        });
+      });
+
+      it('ignores records not being saved', function() {
+        return publisher.save().then((success) => {
+          expect(success).to.eq(true);
+        });
+      });
+
+      it('ignores records marked for destruction', function() {
+        imprint.isMarkedForDestruction(true);
+        expect(publisher.isValid('imprints')).to.eq(true);
+      });
+    });
+  });
+});
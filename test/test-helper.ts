@@ -21,4 +21,20 @@ chai.use(chaiAsPromised);
 
 let expect = chai.expect;
 
-export { sinon, expect, fetchMock };
+// Records the JSON bodies POSTed to the mocked urls. Responds with
+// `response` when a test sets one, otherwise with what the url's
+// respond function returns for the body.
+class FakeServer {
+  requests: Array<{ url: string, headers: Object, body: any }> = [];
+  response: any = null;
+
+  post(url: string, respond: Function) : void {
+    fetchMock.post(url, (url, options) => {
+      let body = JSON.parse(options.body);
+      this.requests.push({ url, headers: options.headers, body });
+      return this.response || respond(body);
+    });
+  }
+}
+
+export { sinon, expect, fetchMock, FakeServer };
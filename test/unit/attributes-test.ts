@@ -1,5 +1,59 @@
 import { sinon, expect } from '../test-helper';
-import { Person, Author, PersonWithoutCamelizedKeys } from '../fixtures';
+import { Config, attr } from '../../src/index';
+import { ApplicationRecord, Person, Author, PersonWithoutCamelizedKeys } from '../fixtures';
+
+Config.registerAttributeType('upcase', {
+  deserialize(value) { return value.toUpperCase(); },
+  serialize(value) { return value.toLowerCase(); }
+});
+
+Config.registerAttributeType('caseless', {
+  isEqual(a, b) { return a.toLowerCase() === b.toLowerCase(); }
+});
+
+class TypedRecord extends ApplicationRecord {
+  static jsonapiType = 'typed_records';
+
+  startsOn = attr({ type: 'date' });
+  createdAt = attr({ type: 'datetime' });
+  price = attr({ type: 'number' });
+  quantity = attr({ type: 'integer' });
+  active = attr({ type: 'boolean' });
+  settings = attr({ type: 'json' });
+  code = attr({ type: 'upcase' });
+  title = attr({ type: 'caseless' });
+  nickname = attr({ type: 'caseless', isEqual: (a, b) => { return a === b; } });
+  reversed = attr({ type: {
+    deserialize(value) { return value.split('').reverse().join(''); }
+  } });
+}
+
+class Money {
+  cents: number;
+
+  constructor(cents: number) {
+    this.cents = cents;
+  }
+}
+
+let counter = 0;
+
+class Product extends ApplicationRecord {
+  static jsonapiType = 'products';
+
+  status = attr({ default: 'draft' });
+  tags = attr({ default: [] });
+  position = attr({ default: () => { counter++; return counter; } });
+  price = attr({
+    deserialize(cents) { return new Money(cents); },
+    serialize(money) { return money.cents; }
+  });
+  total = attr({
+    type: 'number',
+    deserialize(value) { return value * 2; }
+  });
+}
+Config.setup();
 
 describe('Model attributes', function() {
   it('supports direct assignment', function() {
@@ -87,4 +141,222 @@ describe('Model attributes', function() {
       });
     });
   })
+
+  describe('when typed', function() {
+    let record;
+
+    beforeEach(function() {
+      record = new TypedRecord({
+        starts_on: '2017-03-04',
+        created_at: '2017-03-04T10:20:30.000Z',
+        price: '9.99',
+        quantity: '3',
+        active: 'false',
+        settings: '{"theme":"dark"}',
+        code: 'abc',
+        reversed: 'olleh'
+      });
+    });
+
+    it('coerces dates', function() {
+      expect(record.startsOn).to.be.instanceof(Date);
+      expect(record.startsOn.getFullYear()).to.eq(2017);
+      expect(record.startsOn.getMonth()).to.eq(2);
+      expect(record.startsOn.getDate()).to.eq(4);
+    });
+
+    it('coerces datetimes', function() {
+      expect(record.createdAt).to.be.instanceof(Date);
+      expect(record.createdAt.toISOString()).to.eq('2017-03-04T10:20:30.000Z');
+    });
+
+    it('coerces numbers and integers', function() {
+      expect(record.price).to.eq(9.99);
+      expect(record.quantity).to.eq(3);
+    });
+
+    it('coerces booleans', function() {
+      expect(record.active).to.eq(false);
+    });
+
+    it('parses json', function() {
+      expect(record.settings).to.deep.eq({ theme: 'dark' });
+    });
+
+    it('uses types registered on Config', function() {
+      expect(record.code).to.eq('ABC');
+    });
+
+    it('supports inline types', function() {
+      expect(record.reversed).to.eq('hello');
+    });
+
+    it('passes null through', function() {
+      record = new TypedRecord({ starts_on: null, price: null, active: null });
+      expect(record.startsOn).to.eq(null);
+      expect(record.price).to.eq(null);
+      expect(record.active).to.eq(null);
+    });
+
+    it('serializes back to the wire format', function() {
+      let attribute = TypedRecord.attributeList['startsOn'];
+      expect(attribute.serialize(record.startsOn)).to.eq('2017-03-04');
+      expect(TypedRecord.attributeList['code'].serialize(record.code)).to.eq('abc');
+    });
+
+    it('is not dirty when the serialized value is unchanged', function() {
+      record.isPersisted(true);
+      record.startsOn = new Date(2017, 2, 4);
+      expect(record.changes()).to.deep.eq({});
+    });
+
+    describe('with an unknown type', function() {
+      it('throws an error', function() {
+        class Broken extends ApplicationRecord {
+          static jsonapiType = 'brokens';
+          thing = attr({ type: 'asdf' });
+        }
+        Config.setup();
+
+        let fn = function() { new Broken({ thing: 'foo' }) };
+        expect(fn).to.throw(/Could not find attribute type "asdf"/);
+      });
+    });
+  });
+
+  describe('with defaults', function() {
+    it('applies default values', function() {
+      let product = new Product();
+      expect(product.status).to.eq('draft');
+      expect(product.tags).to.deep.eq([]);
+    });
+
+    it('is overridden by constructor attributes', function() {
+      let product = new Product({ status: 'published' });
+      expect(product.status).to.eq('published');
+    });
+
+    it('does not share default objects between instances', function() {
+      let product = new Product();
+      product.tags.push('new');
+      expect(new Product().tags).to.deep.eq([]);
+    });
+
+    it('calls default functions per instance', function() {
+      let first = new Product();
+      let second = new Product();
+      expect(second.position).to.eq(first.position + 1);
+    });
+  });
+
+  describe('with serialization hooks', function() {
+    it('deserializes on assignment', function() {
+      let product = new Product({ price: 1000 });
+      expect(product.price).to.be.instanceof(Money);
+      expect(product.price.cents).to.eq(1000);
+    });
+
+    it('serializes to the wire format', function() {
+      let product = new Product({ price: 1000 });
+      expect(Product.attributeList['price'].serialize(product.price)).to.eq(1000);
+    });
+
+    it('runs after the type coercion', function() {
+      let product = new Product({ total: '3' });
+      expect(product.total).to.eq(6);
+    });
+
+    it('passes null and undefined through', function() {
+      let product = new Product({ price: null });
+      expect(product.price).to.eq(null);
+      expect(Product.attributeList['price'].serialize(undefined)).to.eq(undefined);
+
+      product = new Product();
+      product.isPersisted(true);
+      product.price = new Money(5);
+      expect(product.changes()['price'][0]).to.eq(undefined);
+    });
+
+    it('compares serialized forms when dirty checking', function() {
+      let product = new Product({ price: 1000 });
+      product.isPersisted(true);
+      product.price = new Money(1000);
+      expect(product.isDirty()).to.eq(false);
+      product.price = new Money(2000);
+      expect(product.changes()['price'][1].cents).to.eq(2000);
+    });
+  });
+
+  describe('when dirty checking', function() {
+    let record;
+
+    beforeEach(function() {
+      record = new TypedRecord({
+        settings: { theme: 'light', tags: ['a'] },
+        title: 'Hello',
+        nickname: 'Al'
+      });
+      record.isPersisted(true);
+    });
+
+    it('sees mutations of object values', function() {
+      record.settings.theme = 'dark';
+      expect(record.isDirty()).to.eq(true);
+      expect(record.changes()['settings']).to.deep.eq([
+        { theme: 'light', tags: ['a'] },
+        { theme: 'dark', tags: ['a'] }
+      ]);
+    });
+
+    it('sees values pushed into arrays', function() {
+      record.settings.tags.push('b');
+      expect(record.isDirty()).to.eq(true);
+    });
+
+    it('ignores key order', function() {
+      record.settings = { tags: ['a'], theme: 'light' };
+      expect(record.isDirty()).to.eq(false);
+      expect(record.changes()).to.deep.eq({});
+    });
+
+    it('reports the nested paths that changed', function() {
+      record.settings.theme = 'dark';
+      record.settings.tags.push('b');
+      record.settings.font = 'serif';
+      expect(record.changedPaths()).to.deep.eq({
+        'settings.theme': ['light', 'dark'],
+        'settings.tags.1': [undefined, 'b'],
+        'settings.font': [undefined, 'serif']
+      });
+    });
+
+    it('reports whole values for unpersisted records', function() {
+      let fresh = new TypedRecord({ settings: { theme: 'light' } });
+      expect(fresh.changedPaths()).to.deep.eq({
+        settings: [null, { theme: 'light' }]
+      });
+    });
+
+    it('uses the isEqual of the type', function() {
+      record.title = 'HELLO';
+      expect(record.isDirty()).to.eq(false);
+      record.title = 'Goodbye';
+      expect(record.changedPaths()).to.deep.eq({ title: ['Hello', 'Goodbye'] });
+    });
+
+    it('does not call a custom isEqual with blank values', function() {
+      record.title = null;
+      expect(record.changes()).to.deep.eq({ title: ['Hello', null] });
+      record.title = undefined;
+      record.isPersisted(true);
+      expect(record.isDirty()).to.eq(false);
+      record.title = 'Hello';
+      expect(record.isDirty()).to.eq(true);
+    });
+
+    it('prefers the isEqual of the attribute', function() {
+      record.nickname = 'AL';
+      expect(record.changes()).to.deep.eq({ nickname: ['Al', 'AL'] });
+    });
+  });
 });
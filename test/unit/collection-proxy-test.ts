@@ -20,8 +20,8 @@ describe('CollectionProxy', function() {
         total: {
           count: 3
         },
-        average: {
-          salary: "$100k"
+        salary: {
+          average: 100000
         }
       }
     }
@@ -56,5 +56,20 @@ describe('CollectionProxy', function() {
       })
     })
   })
+
+  describe('#stats', function() {
+    it('should get stats from the meta payload', function() {
+      let collection = new CollectionProxy(personData)
+      expect(collection.stats.total.count).to.eq(3)
+      expect(collection.stats.salary).to.deep.eq({ average: 100000 })
+    })
+
+    describe('stats is absent', function() {
+      it('should return an empty object', function() {
+        let collection = new CollectionProxy({ data: [] })
+        expect(collection.stats).to.deep.eq({})
+      })
+    })
+  })
 })
 
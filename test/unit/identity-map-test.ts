@@ -0,0 +1,44 @@
+import { expect } from '../test-helper';
+import { Person, Author } from '../fixtures';
+import IdentityMap from '../../src/identity-map';
+
+describe('IdentityMap', function() {
+  let map;
+
+  beforeEach(function() {
+    map = new IdentityMap();
+  });
+
+  describe('#add()', function() {
+    it('tracks the instance by type and id', function() {
+      let person = new Person({ id: '1' });
+      map.add(person);
+      expect(map.find('people', '1')).to.eq(person);
+      expect(map.find('authors', '1')).to.eq(undefined);
+    });
+
+    it('ignores instances without an id', function() {
+      map.add(new Person());
+      expect(map.find('people', undefined)).to.eq(undefined);
+    });
+  });
+
+  describe('#remove()', function() {
+    it('stops tracking the instance', function() {
+      let author = new Author({ id: '1' });
+      map.add(author);
+      map.remove(author);
+      expect(map.find('authors', '1')).to.eq(undefined);
+    });
+  });
+
+  describe('#clear()', function() {
+    it('stops tracking everything', function() {
+      map.add(new Person({ id: '1' }));
+      map.add(new Author({ id: '2' }));
+      map.clear();
+      expect(map.find('people', '1')).to.eq(undefined);
+      expect(map.find('authors', '2')).to.eq(undefined);
+    });
+  });
+});
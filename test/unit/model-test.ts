@@ -8,7 +8,8 @@ import {
   Author,
   Book,
   Genre,
-  Bio
+  Bio,
+  persisted
 } from '../fixtures';
 
 let instance;
@@ -661,6 +662,79 @@ describe('Model', function() {
     });
   });
 
+  describe('#relationshipChanges', function() {
+    let kept, gone;
+
+    beforeEach(function() {
+      kept = persisted(Book, { id: '1', title: 'Kept' });
+      gone = persisted(Book, { id: '2', title: 'Gone' });
+      instance = new Author({ id: '1' });
+      instance.books = [kept, gone];
+      instance.genre = persisted(Genre, { id: '1' });
+      instance.isPersisted(true);
+    });
+
+    it('is empty when nothing changed', function() {
+      expect(instance.relationshipChanges()).to.deep.eq({});
+    });
+
+    it('lists added and removed members', function() {
+      let created = new Book({ title: 'New' });
+      let existing = persisted(Book, { id: '3' });
+      instance.books = [kept, created, existing];
+
+      let changes = instance.relationshipChanges();
+      expect(Object.keys(changes)).to.deep.eq(['books']);
+      expect(changes.books.added).to.deep.eq([created, existing]);
+      expect(changes.books.removed).to.deep.eq([gone]);
+    });
+
+    it('matches members by identity rather than instance', function() {
+      instance.books = [kept, persisted(Book, { id: '2' })];
+      expect(instance.relationshipChanges()).to.deep.eq({});
+    });
+
+    it('lists members marked for destruction or disassociation', function() {
+      kept.isMarkedForDestruction(true);
+      gone.isMarkedForDisassociation(true);
+
+      let change = instance.relationshipChanges().books;
+      expect(change.destroyed).to.deep.eq([kept]);
+      expect(change.disassociated).to.deep.eq([gone]);
+      expect(change.added).to.deep.eq([]);
+      expect(change.removed).to.deep.eq([]);
+    });
+
+    it('reports a switched to-one relationship as replaced', function() {
+      let prior = instance.genre;
+      let current = persisted(Genre, { id: '2' });
+      instance.genre = current;
+
+      let change = instance.relationshipChanges().genre;
+      expect(change.replaced).to.deep.eq([prior, current]);
+      expect(change.added).to.deep.eq([]);
+      expect(change.removed).to.deep.eq([]);
+    });
+
+    it('reports a cleared to-one relationship as removed', function() {
+      let prior = instance.genre;
+      instance.genre = null;
+      expect(instance.relationshipChanges().genre.removed).to.deep.eq([prior]);
+    });
+
+    it('lists dirty members only for the given relationships', function() {
+      kept.title = 'Changed';
+      expect(instance.relationshipChanges()).to.deep.eq({});
+      expect(instance.relationshipChanges('books').books.changed).to.deep.eq([kept]);
+    });
+
+    it('is reset when persisted', function() {
+      instance.books = [kept];
+      instance.isPersisted(true);
+      expect(instance.relationshipChanges()).to.deep.eq({});
+    });
+  });
+
   describe('isDirty', function() {
     describe('when an attribute changes', function() {
       it('is marked as dirty', function() {
@@ -843,4 +917,77 @@ describe('Model', function() {
       });
     });
   });
+
+  describe('#rollback', function() {
+    let book, genre;
+
+    beforeEach(function() {
+      book = new Book({ id: '1', title: 'The Shining' });
+      book.isPersisted(true);
+      genre = new Genre({ id: '1', name: 'Horror' });
+      genre.isPersisted(true);
+
+      instance = new Author({ id: '1', firstName: 'Stephen' });
+      instance.books = [book];
+      instance.genre = genre;
+      instance.isPersisted(true);
+    });
+
+    it('restores attributes', function() {
+      instance.firstName = 'Richard';
+      instance.rollback();
+      expect(instance.firstName).to.eq('Stephen');
+      expect(instance.isDirty()).to.eq(false);
+    });
+
+    it('restores the original values of unpersisted records', function() {
+      instance = new Author({ firstName: 'Stephen' });
+      instance.firstName = 'Richard';
+      instance.rollback();
+      expect(instance.firstName).to.eq('Stephen');
+    });
+
+    it('restores relationships, re-adding removed members', function() {
+      let otherBook = new Book({ id: '2' });
+      otherBook.isPersisted(true);
+      instance.books.splice(0, 1);
+      instance.books.push(otherBook);
+      instance.genre = new Genre({ name: 'Fantasy' });
+
+      instance.rollback();
+      expect(instance.books).to.deep.eq([book]);
+      expect(instance.genre).to.eq(genre);
+      expect(instance.isDirty('books.genre')).to.eq(false);
+    });
+
+    it('clears destroy and disassociate marks on related records', function() {
+      book.isMarkedForDestruction(true);
+      genre.isMarkedForDisassociation(true);
+
+      instance.rollback();
+      expect(book.isMarkedForDestruction()).to.eq(false);
+      expect(genre.isMarkedForDisassociation()).to.eq(false);
+      expect(instance.isDirty(['books', 'genre'])).to.eq(false);
+    });
+
+    it('clears errors', function() {
+      instance.errors = { firstName: [{ attribute: 'firstName', message: 'is invalid', fullMessage: 'First name is invalid' }] };
+      instance.rollback();
+      expect(instance.errors).to.deep.eq({});
+    });
+
+    it('leaves nested records alone by default', function() {
+      book.title = 'Carrie';
+      instance.rollback();
+      expect(book.title).to.eq('Carrie');
+    });
+
+    it('rolls back nested records in the given relationships', function() {
+      book.title = 'Carrie';
+      genre.name = 'Thriller';
+      instance.rollback('books');
+      expect(book.title).to.eq('The Shining');
+      expect(genre.name).to.eq('Thriller');
+    });
+  });
 });
@@ -0,0 +1,56 @@
+import { expect } from '../test-helper';
+import RetryPolicy from '../../src/util/retry-policy';
+
+const responseWithHeaders = function(headers: Object) : any {
+  return { headers: { get: (name) => { return headers[name]; } } };
+}
+
+describe('RetryPolicy', function() {
+  it('does not retry by default', function() {
+    let policy = new RetryPolicy();
+    expect(policy.allowsRetry('GET', 1)).to.eq(false);
+  });
+
+  it('merges options in order', function() {
+    let policy = new RetryPolicy({ maxAttempts: 3 }, undefined, { methods: ['get', 'post'] });
+    expect(policy.maxAttempts).to.eq(3);
+    expect(policy.methods).to.deep.eq(['GET', 'POST']);
+    expect(policy.statuses).to.deep.eq([429, 502, 503, 504]);
+  });
+
+  describe('#allowsRetry()', function() {
+    it('only retries configured methods, up to maxAttempts', function() {
+      let policy = new RetryPolicy({ maxAttempts: 2 });
+      expect(policy.allowsRetry('GET', 1)).to.eq(true);
+      expect(policy.allowsRetry('GET', 2)).to.eq(false);
+      expect(policy.allowsRetry('POST', 1)).to.eq(false);
+    });
+  });
+
+  describe('#delayFor()', function() {
+    it('backs off exponentially up to maxDelay', function() {
+      let policy = new RetryPolicy({ baseDelay: 100, maxDelay: 300, jitter: false });
+      expect(policy.delayFor(1)).to.eq(100);
+      expect(policy.delayFor(2)).to.eq(200);
+      expect(policy.delayFor(3)).to.eq(300);
+    });
+
+    it('adds jitter within half the delay', function() {
+      let policy = new RetryPolicy({ baseDelay: 100 });
+      let delay = policy.delayFor(2);
+      expect(delay).to.be.within(100, 200);
+    });
+
+    it('honors Retry-After in seconds', function() {
+      let policy = new RetryPolicy();
+      expect(policy.delayFor(1, responseWithHeaders({ 'Retry-After': '2' }))).to.eq(2000);
+    });
+
+    it('honors Retry-After as an HTTP date', function() {
+      let policy = new RetryPolicy();
+      let date = new Date(Date.now() + 5000).toUTCString();
+      let delay = policy.delayFor(1, responseWithHeaders({ 'Retry-After': date }));
+      expect(delay).to.be.within(3000, 5000);
+    });
+  });
+});
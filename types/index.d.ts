@@ -10,6 +10,18 @@ interface japiDoc {
   data: any; // can't do Array | japiResource
   included?: Array<japiResource>;
   meta?: any;
+  links?: any;
+  errors?: Array<japiError>;
+}
+
+interface japiError {
+  id?: string;
+  status?: string;
+  code?: string;
+  title?: string;
+  detail?: string;
+  source?: { pointer?: string, parameter?: string };
+  meta?: any;
 }
 
 interface japiResourceIdentifier {
@@ -24,12 +36,194 @@ interface japiResource extends japiResourceIdentifier {
   links?: Object;
 }
 
+interface japiStatsCalculations {
+  count?: number;
+  sum?: number;
+  average?: number;
+  maximum?: number;
+  minimum?: number;
+}
+
+// Keyed by attribute name (or 'total'), e.g.
+// { total: { count: 10 }, salary: { sum: 1000, average: 100 } }
+interface japiStats {
+  [attribute: string]: japiStatsCalculations;
+}
+
+// The parts of a DOM AbortSignal we rely on
+interface abortSignal {
+  aborted: boolean;
+  addEventListener(type: string, listener: Function): void;
+  removeEventListener(type: string, listener: Function): void;
+}
+
+interface retryOptions {
+  // total attempts, including the first
+  maxAttempts?: number;
+  // milliseconds, doubled on each retry
+  baseDelay?: number;
+  maxDelay?: number;
+  // randomize delays so clients don't retry in lockstep
+  jitter?: boolean;
+  // response statuses worth retrying; network errors always are
+  statuses?: Array<number>;
+  // HTTP methods to retry, e.g. add 'POST' to retry writes
+  methods?: Array<string>;
+}
+
+// Per-request options accepted by finders, save() and destroy()
+interface requestOptions {
+  signal?: abortSignal;
+  // milliseconds; overrides the model and Config defaults
+  timeout?: number;
+  // merged over the model and Config defaults
+  retry?: retryOptions;
+}
+
 interface IResultProxy<T> {
   data: any
   meta: Object
   raw: japiDoc
 }
 
+// Either half may be omitted, defaulting to passing the value through
+interface attributeType {
+  deserialize?: (value: any) => any;
+  serialize?: (value: any) => any;
+  // Compares two deserialized values for dirty checking. By default,
+  // serialized values are compared structurally.
+  isEqual?: (a: any, b: any) => boolean;
+}
+
+type attributeTypeName = 'date' | 'datetime' | 'number' | 'integer' | 'boolean' | 'json';
+
 interface attributeOptions {
-  persist: boolean;
+  persist?: boolean;
+  // A built-in type, one registered with Config.registerAttributeType,
+  // or an inline attributeType
+  type?: attributeTypeName | string | attributeType;
+  // A value, or a function returning one, for new instances
+  default?: any;
+  // deserialize runs after the type's own deserialize, serialize before
+  // the type's own serialize, so both work with model-side values
+  serialize?: (value: any) => any;
+  deserialize?: (value: any) => any;
+  // Takes precedence over the type's isEqual
+  isEqual?: (a: any, b: any) => boolean;
+  validates?: validationOptions;
+}
+
+// Return an error message when invalid
+type validationFunction = (value: any, model: any) => string | void;
+
+// A client- or server-side validation error. attribute is "base" for
+// errors on the record as a whole.
+interface validationError {
+  attribute: string;
+  message: string;
+  fullMessage: string;
+  code?: string;
+  title?: string;
+  detail?: string;
+  source?: { pointer?: string, parameter?: string };
+  meta?: any;
+}
+
+interface validationErrors {
+  [attribute: string]: Array<validationError>;
+}
+
+// Built-in validators take `true` or an options object, plus an
+// optional `message` override. Any other key must be a function.
+interface validationOptions {
+  presence?: boolean | { message?: string };
+  length?: { is?: number, minimum?: number, maximum?: number, message?: string };
+  format?: RegExp | { with: RegExp, message?: string };
+  numericality?: boolean | {
+    onlyInteger?: boolean,
+    greaterThan?: number,
+    greaterThanOrEqualTo?: number,
+    lessThan?: number,
+    lessThanOrEqualTo?: number,
+    message?: string
+  };
+  inclusion?: Array<any> | { in: Array<any>, message?: string };
+  [custom: string]: any;
+}
+
+// A write waiting in the OfflineQueue. Plain JSON, so storage can
+// serialize it.
+interface queuedWrite {
+  type: string;
+  // the request verb: post, put, patch or delete
+  method: string;
+  url: string;
+  payload?: Object;
+  // 'atomic' for atomic:operations documents
+  format?: string;
+  queuedAt?: number;
+}
+
+// Where the OfflineQueue keeps its writes. Either method may return a
+// promise, e.g. for IndexedDB.
+interface offlineQueueStorage {
+  load(): Array<queuedWrite> | Promise<Array<queuedWrite>>;
+  save(writes: Array<queuedWrite>): void | Promise<void>;
+}
+
+interface replayResult {
+  synced: number;
+  failed: Array<{ write: queuedWrite, error: Error }>;
+}
+
+// Scope#cache options, in milliseconds
+interface cacheOptions {
+  ttl?: number;
+  staleWhileRevalidate?: number;
+}
+
+interface responseCacheEntry {
+  // the jsonapiType of the scope that read it, for invalidation
+  type: string;
+  json: japiDoc;
+  etag?: string;
+  storedAt: number;
+}
+
+// Where the ResponseCache keeps responses
+interface responseCacheStore {
+  get(key: string): responseCacheEntry | void;
+  set(key: string, entry: responseCacheEntry): void;
+  delete(key: string): void;
+  keys(): Array<string>;
+}
+
+// One operation of a JSON:API Atomic Operations document
+interface atomicOperation {
+  op: string; // add, update or remove
+  ref?: Object;
+  data?: any;
+}
+
+// ApiContext#batch options
+interface batchOptions extends requestOptions {
+  // 'atomic' or 'bulk'; defaults to the context's batchFormat
+  format?: string;
+  // defaults by format to the context's operationsPath or batchPath
+  url?: string;
+}
+
+// The changes to one relationship, see Model#relationshipChanges.
+// Members are Model instances.
+interface relationshipChange {
+  // new members, and persisted records that weren't members before
+  added: Array<any>;
+  // members when last loaded or saved that are gone
+  removed: Array<any>;
+  destroyed: Array<any>;
+  disassociated: Array<any>;
+  // otherwise unchanged members that are dirty themselves
+  changed: Array<any>;
+  // [prior, current] when a to-one relationship was switched
+  replaced?: Array<any>;
 }